@@ -3,6 +3,12 @@ export type {
   AgentEvent,
   AgentEventType,
   AgentEventMetadata,
+  AgentUsage,
+  FileChangeKind,
+  ToolCallStatus,
+  AgentPlanEntry,
+  PlanEntryStatus,
+  PlanEntryPriority,
 } from './types/events.js';
 
 export type {
@@ -13,15 +19,45 @@ export type {
 
 export type {
   WSMessage,
+  ApprovalRequiredPayload,
+  ApprovalResponsePayload,
+  ApprovalResolvedPayload,
 } from './types/messages.js';
 
 export type {
   AgentProvider,
   AgentSession,
   AgentSessionConfig,
+  AgentSessionMode,
+  McpServerConfig,
+  ClaudeSessionOptions,
+  CodexSessionOptions,
   AgentSessionHooks,
+  AgentTool,
+  AgentToolContext,
+  AgentToolOutput,
+  AgentToolCall,
+  AgentToolResult,
+  AgentToolResultOverride,
+  AgentPermissionRequest,
+  AgentPermissionDecision,
+  PermissionPolicy,
+  PermissionPolicyAction,
+  PermissionPolicyDecision,
+  PermissionRule,
+  AuditedPermissionRule,
+  PermissionDecisionSource,
+  PermissionAuditEntry,
+  PermissionAuditSink,
+  PermissionAuditLog,
   AgentAttachment,
+  AgentFileChange,
+  AgentExecuteOptions,
+  AgentOutputSchema,
   AgentResult,
+  AgentStopReason,
+  AgentStreamItem,
+  AgentStreamResult,
 } from './types/providers.js';
 
 // Providers
@@ -34,11 +70,20 @@ export { OpenClawProvider } from './providers/openclaw.js';
 export { OpenClawGatewayProvider } from './providers/openclaw-gateway.js';
 export { detectAgents } from './providers/detection.js';
 export { ProgressAggregator } from './providers/progress.js';
+export { evaluatePermissionPolicy, loadPermissionPolicy, parsePermissionPolicy } from './providers/policy.js';
+export {
+  AUDIT_GENESIS_HASH,
+  createJsonlAuditSink,
+  createPermissionAuditLog,
+  readPermissionAuditLog,
+  verifyPermissionAuditLog,
+} from './providers/audit.js';
 
 // WebSocket utilities
 export { createHeartbeat, broadcast, createWSServer } from './ws/server.js';
 export { WSClient } from './ws/client.js';
 export { sanitizeJson } from './ws/sanitize.js';
+export { createApprovalQueue, APPROVAL_REQUIRED, APPROVAL_RESPONSE, APPROVAL_RESOLVED } from './ws/approvals.js';
 
 export type { CopilotProviderOptions } from './providers/copilot.js';
 export type { ClaudeProviderOptions } from './providers/claude.js';
@@ -47,8 +92,11 @@ export type { OpenCodeProviderOptions } from './providers/opencode.js';
 export type { HermesProviderOptions } from './providers/hermes.js';
 export type { OpenClawProviderOptions, OpenClawAcpProvenanceMode } from './providers/openclaw.js';
 export type { OpenClawDeviceIdentity, OpenClawGatewayProviderOptions } from './providers/openclaw-gateway.js';
+export type { PermissionAuditLogOptions } from './providers/audit.js';
 
 export { buildContentBlocks } from './providers/claude.js';
+export { buildClaudeSessionOptions } from './providers/claude.js';
+export { buildCodexThreadOptions } from './providers/codex.js';
 export { createHermesEnvironment, buildAcpPromptBlocks } from './providers/hermes.js';
 export { buildOpenClawAcpArgs, createOpenClawEnvironment, buildOpenClawAcpPromptBlocks } from './providers/openclaw.js';
 export { buildOpenClawDeviceAuthPayloadV3, extractOpenClawText, mapOpenClawChatEvent } from './providers/openclaw-gateway.js';
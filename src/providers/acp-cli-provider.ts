@@ -9,26 +9,46 @@ import {
 import type {
   Client,
   ContentBlock,
+  McpCapabilities,
+  McpServer,
   RequestPermissionRequest,
   RequestPermissionResponse,
   SessionNotification,
+  StopReason,
 } from '@agentclientprotocol/sdk';
 import type { AgentType } from '../types/agents.js';
+import type { AgentUsage } from '../types/events.js';
 import type {
   AgentProvider,
   AgentSession,
+  AgentExecuteOptions,
+  AgentStreamItem,
   AgentSessionConfig,
   AgentResult,
   AgentAttachment,
+  AgentStopReason,
 } from '../types/providers.js';
 import { diagnoseError, formatDiagnostic } from './diagnostics.js';
 import {
+  acpToolName,
   buildAcpPromptBlocks,
   emitAcpPlanUpdate,
   emitAcpToolUpdate,
-  mapAcpToolKindToPermissionKind,
+  pickAcpSessionMode,
+  toAcpPermissionRequest,
+  toAcpToolResult,
 } from './acp-utils.js';
 import { emitAgentEvent } from './events.js';
+import { cancelledResult, resolveExecuteOptions, runCancellable, sendCancellable } from './cancellation.js';
+import { assertValidAgentTools, startMcpToolServer, toAcpMcpServer } from './custom-tools.js';
+import type { McpToolServer } from './custom-tools.js';
+import { normalizeMcpServers, toAcpMcpServers } from './mcp-servers.js';
+import { askPermission } from './permissions.js';
+import { runWithOutputSchema } from './structured-output.js';
+import { ToolCallTracker } from './tool-calls.js';
+import { runPostToolUse } from './tool-hooks.js';
+import { TurnRecorder, describeUsage } from './turn.js';
+import { isWorktreeSession } from './worktree.js';
 
 export type SpawnedAcpProcess = Pick<ChildProcessWithoutNullStreams, 'stdin' | 'stdout' | 'stderr' | 'kill'> & {
   on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): SpawnedAcpProcess;
@@ -47,8 +67,17 @@ type RegisteredSession = {
   config: AgentSessionConfig;
   destroyed: boolean;
   aborted: boolean;
+  toolCalls: ToolCallTracker;
+  /** onPostToolUse names of running tool calls, from the first update that had one */
+  toolNames: Map<string, string>;
+  /** Tool calls of the current prompt whose result already went to onPostToolUse */
+  reportedToolResults: Set<string>;
+  /** Agent message text streamed during the current prompt */
+  outputText: string;
   inFlightPrompt?: Promise<AgentResult>;
   rejectInFlight?: (error: Error) => void;
+  /** Serves the session's custom tools to the agent */
+  toolServer?: McpToolServer;
 };
 
 export interface AcpCliProviderBaseConfig {
@@ -67,7 +96,6 @@ export interface AcpCliProviderBaseConfig {
   notInitializedMessage: string;
   missingSessionMessage: string;
   destroyedMessage: string;
-  abortedMessage: string;
   completedMessage: string;
 }
 
@@ -81,6 +109,7 @@ export class AcpCliProviderBase implements AgentProvider {
   private child: SpawnedAcpProcess | null = null;
   private stderrTail: string[] = [];
   private sessions = new Map<string, RegisteredSession>();
+  private mcpCapabilities: McpCapabilities | undefined;
 
   constructor(config: AcpCliProviderBaseConfig) {
     this.config = config;
@@ -115,7 +144,7 @@ export class AcpCliProviderBase implements AgentProvider {
     this.client = client;
 
     try {
-      await client.initialize({
+      const initialized = await client.initialize({
         protocolVersion: PROTOCOL_VERSION,
         clientInfo: {
           name: 'agent-sdk-core',
@@ -127,6 +156,7 @@ export class AcpCliProviderBase implements AgentProvider {
           terminal: false,
         },
       });
+      this.mcpCapabilities = initialized.agentCapabilities?.mcpCapabilities ?? undefined;
       console.log(`[${this.config.consolePrefix}] ACP initialized (command: ${this.config.command}, model: ${this.model})`);
     } catch (err: unknown) {
       await this.closeConnection();
@@ -135,27 +165,84 @@ export class AcpCliProviderBase implements AgentProvider {
   }
 
   async stop(): Promise<void> {
+    await Promise.allSettled([...this.sessions.values()].map(session => session.toolServer?.close()));
     this.sessions.clear();
     await this.closeConnection();
   }
 
   async createSession(config: AgentSessionConfig): Promise<AgentSession> {
     const client = this.requireClient();
+    const turn = new TurnRecorder(config.onEvent);
+    config = { ...config, onEvent: turn.onEvent };
     const sessionRequest = this.config.sessionRequest(config);
-    const response = config.resumeSessionId
-      ? await client.resumeSession({ ...sessionRequest, sessionId: config.resumeSessionId } as Parameters<AcpClient['resumeSession']>[0])
-      : await client.newSession(sessionRequest as Parameters<AcpClient['newSession']>[0]);
+    // Tool inputs can't be rewritten over ACP, and agents that don't ask permission could write to the checkout
+    if (isWorktreeSession(config)) {
+      throw new Error(`${this.config.providerLabel} cannot keep a worktree session out of ${config.repoPath}; run it with workingDirectory set to repoPath or use Copilot or Claude Code.`);
+    }
+
+    // The session's MCP servers replace the provider's of the same name
+    const sessionServers = toAcpMcpServers(normalizeMcpServers(config.mcpServers), this.mcpCapabilities, this.config.consolePrefix);
+    if (sessionServers.length) {
+      const names = new Set(sessionServers.map(server => server.name));
+      sessionRequest.mcpServers = [
+        ...((sessionRequest.mcpServers as McpServer[] | undefined) ?? []).filter(server => !names.has(server.name)),
+        ...sessionServers,
+      ];
+    }
+
+    // Custom tools reach the agent as one more MCP server, served from this process
+    let toolServer: McpToolServer | undefined;
+    let toolSessionId: string | null = config.resumeSessionId ?? null;
+    if (config.tools?.length) {
+      assertValidAgentTools(config.tools);
+      const { tools, contextId } = config;
+      toolServer = await startMcpToolServer(tools, () => ({ agentType: this.name, sessionId: toolSessionId, contextId }));
+      sessionRequest.mcpServers = [
+        ...(sessionRequest.mcpServers as McpServer[] | undefined) ?? [],
+        toAcpMcpServer(toolServer, Boolean(this.mcpCapabilities?.http)),
+      ];
+    }
+
+    let response: Awaited<ReturnType<AcpClient['newSession']>> | Awaited<ReturnType<AcpClient['resumeSession']>>;
+    try {
+      response = config.resumeSessionId
+        ? await client.resumeSession({ ...sessionRequest, sessionId: config.resumeSessionId } as Parameters<AcpClient['resumeSession']>[0])
+        : await client.newSession(sessionRequest as Parameters<AcpClient['newSession']>[0]);
+    } catch (err: unknown) {
+      await toolServer?.close();
+      throw err;
+    }
     const sessionId = 'sessionId' in response && typeof response.sessionId === 'string'
       ? response.sessionId
       : config.resumeSessionId;
     if (!sessionId) {
+      await toolServer?.close();
       throw new Error(this.config.missingSessionMessage);
     }
+    toolSessionId = sessionId;
+
+    // Plan mode is also enforced by askPermission, but agents only ask when their own mode requires it
+    const modes = 'modes' in response ? response.modes : undefined;
+    const modeId = config.mode ? pickAcpSessionMode(config.mode, modes) : undefined;
+    if (modeId && modeId !== modes?.currentModeId) {
+      try {
+        await client.setSessionMode({ sessionId, modeId });
+      } catch (err: unknown) {
+        console.warn(`[${this.config.consolePrefix}] failed to set session mode ${modeId}: ${errorMessage(err)}`);
+      }
+    } else if (config.mode && !modeId && modes) {
+      console.warn(`[${this.config.consolePrefix}] agent has no session mode for ${config.mode}`);
+    }
 
     const registered: RegisteredSession = {
       config,
       destroyed: false,
       aborted: false,
+      toolCalls: new ToolCallTracker(),
+      toolNames: new Map(),
+      reportedToolResults: new Set(),
+      outputText: '',
+      ...(toolServer ? { toolServer } : {}),
     };
     this.sessions.set(sessionId, registered);
 
@@ -168,16 +255,21 @@ export class AcpCliProviderBase implements AgentProvider {
       includeInitialContext: boolean,
     ): Promise<AgentResult> => {
       if (registered.destroyed) {
-        return { status: 'failed', error: this.config.destroyedMessage };
+        return { status: 'failed', error: this.config.destroyedMessage, stopReason: 'error' };
       }
 
       registered.aborted = false;
+      registered.outputText = '';
+      registered.reportedToolResults.clear();
       const blocks = await buildAcpPromptBlocks(
         this.config.providerLabel,
         includeInitialContext && config.systemPrompt ? `${config.systemPrompt}\n\n${prompt}` : prompt,
         attachments,
         config.workingDirectory,
       );
+      if (registered.aborted) {
+        return cancelledResult();
+      }
 
       const promptPromise = this.sendPrompt(client, sessionId, blocks, registered);
       registered.inFlightPrompt = promptPromise;
@@ -203,35 +295,44 @@ export class AcpCliProviderBase implements AgentProvider {
       }
     };
 
-    return {
+    const agentSession: AgentSession = {
       get sessionId() {
         return sessionId;
       },
 
-      execute: async (prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult> => withPromptLock(async () => {
-        try {
-          const merged = initialPromptSent
-            ? attachments
-            : [...(config.attachments ?? []), ...(attachments ?? [])];
-          const result = await runPrompt(prompt, merged, !initialPromptSent);
-          initialPromptSent = true;
-          return result;
-        } catch (err: unknown) {
-          const diag = formatDiagnostic(diagnoseError(this.config.diagnosticName, errorMessage(err), config.workingDirectory));
-          emitAgentEvent(config, 'error', `${this.config.providerLabel} ACP error: ${diag}`);
-          return { status: 'failed', error: diag };
-        }
-      }),
+      execute: async (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult> => {
+        const { attachments, outputSchema, ...cancellation } = resolveExecuteOptions(options);
+        return withPromptLock(() => runCancellable(cancellation, () => agentSession.abort(), () => turn.run(async () => {
+          try {
+            return await runWithOutputSchema(outputSchema, prompt, async (text, isRetry) => {
+              const merged = initialPromptSent
+                ? (isRetry ? undefined : attachments)
+                : [...(config.attachments ?? []), ...(attachments ?? [])];
+              const result = await runPrompt(text, merged, !initialPromptSent);
+              initialPromptSent = true;
+              return result;
+            });
+          } catch (err: unknown) {
+            const diag = formatDiagnostic(diagnoseError(this.config.diagnosticName, errorMessage(err), config.workingDirectory));
+            emitAgentEvent(config, 'error', `${this.config.providerLabel} ACP error: ${diag}`);
+            return { status: 'failed', error: diag, stopReason: 'error' };
+          }
+        })));
+      },
 
-      send: async (message: string, attachments?: AgentAttachment[]): Promise<void> => {
-        await withPromptLock(async () => {
+      stream: (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem> =>
+        turn.stream(() => agentSession.execute(prompt, options)),
+
+      send: async (message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void> => {
+        const { attachments, ...cancellation } = resolveExecuteOptions(options);
+        await withPromptLock(() => sendCancellable(cancellation, () => agentSession.abort(), () => turn.send(async () => {
           try {
             await runPrompt(message, attachments, false);
           } catch (err: unknown) {
             const diag = formatDiagnostic(diagnoseError(this.config.diagnosticName, errorMessage(err), config.workingDirectory));
             emitAgentEvent(config, 'error', `${this.config.providerLabel} ACP error: ${diag}`);
           }
-        });
+        })));
       },
 
       abort: async (): Promise<void> => {
@@ -252,8 +353,11 @@ export class AcpCliProviderBase implements AgentProvider {
         } catch {
           // Session cleanup must be safe in finally blocks even if the bridge already exited.
         }
+        await registered.toolServer?.close();
       },
     };
+
+    return agentSession;
   }
 
   private requireClient(): AcpClient {
@@ -281,17 +385,28 @@ export class AcpCliProviderBase implements AgentProvider {
       session.rejectInFlight = reject;
       promptRequest.then(resolve, reject);
     });
+    if (response.usage) {
+      const usage: AgentUsage = {
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        ...(response.usage.cachedReadTokens != null ? { cachedInputTokens: response.usage.cachedReadTokens } : {}),
+        ...(response.usage.cachedWriteTokens != null ? { cacheWriteTokens: response.usage.cachedWriteTokens } : {}),
+        ...(response.usage.thoughtTokens != null ? { reasoningTokens: response.usage.thoughtTokens } : {}),
+      };
+      emitAgentEvent(session.config, 'usage', describeUsage(usage), { usage });
+    }
     const stopReason = response.stopReason;
+    const finalMessage = session.outputText || undefined;
     if (session.aborted || stopReason === 'cancelled') {
-      return { status: 'failed', error: this.config.abortedMessage };
+      return { ...cancelledResult(), finalMessage };
     }
     if (stopReason === 'end_turn' || stopReason === 'max_tokens' || stopReason === 'max_turn_requests') {
       emitAgentEvent(session.config, 'complete', this.config.completedMessage);
-      return { status: 'complete' };
+      return { status: 'complete', stopReason: mapAcpStopReason(stopReason), finalMessage };
     }
     const error = `${this.config.providerLabel} stopped with reason: ${stopReason}`;
     emitAgentEvent(session.config, 'error', error);
-    return { status: 'failed', error };
+    return { status: 'failed', error, stopReason: mapAcpStopReason(stopReason), finalMessage };
   }
 
   private handleSessionUpdate(params: SessionNotification): void {
@@ -302,7 +417,10 @@ export class AcpCliProviderBase implements AgentProvider {
     switch (update.sessionUpdate) {
       case 'agent_message_chunk': {
         const text = extractContentText(update.content);
-        if (text) emitAgentEvent(session.config, 'output', text);
+        if (text) {
+          session.outputText += text;
+          emitAgentEvent(session.config, 'output', text);
+        }
         break;
       }
       case 'agent_thought_chunk': {
@@ -311,9 +429,32 @@ export class AcpCliProviderBase implements AgentProvider {
         break;
       }
       case 'tool_call':
-      case 'tool_call_update':
-        emitAcpToolUpdate(session.config, update, this.config.providerLabel);
+      case 'tool_call_update': {
+        const lifecycle = emitAcpToolUpdate(session.config, update, this.config.providerLabel, session.toolCalls);
+        // Later updates often leave out the kind, so the hook gets the name the call started with
+        const toolName = session.toolNames.get(update.toolCallId) ?? acpToolName(update);
+        if (toolName) session.toolNames.set(update.toolCallId, toolName);
+        if (lifecycle.toolStatus !== 'completed' && lifecycle.toolStatus !== 'failed') break;
+        session.toolNames.delete(update.toolCallId);
+        // The agent already has the result, so the hook can only observe it,
+        // once per call even when the agent repeats its final update
+        if (session.config.hooks?.onPostToolUse && !session.reportedToolResults.has(update.toolCallId)) {
+          session.reportedToolResults.add(update.toolCallId);
+          void runPostToolUse(
+            session.config,
+            {
+              toolName: toolName ?? 'tool',
+              toolCallId: update.toolCallId,
+              ...(update.rawInput !== undefined ? { input: update.rawInput } : {}),
+              agentType: this.config.name,
+              sessionId: params.sessionId,
+              contextId: session.config.contextId,
+            },
+            toAcpToolResult(update, lifecycle.toolStatus === 'failed'),
+          );
+        }
         break;
+      }
       case 'plan':
         emitAcpPlanUpdate(session.config, update);
         break;
@@ -329,9 +470,12 @@ export class AcpCliProviderBase implements AgentProvider {
     }
 
     const toolCall = params.toolCall;
-    emitAcpToolUpdate(session.config, toolCall, this.config.providerLabel);
-    const hookKind = mapAcpToolKindToPermissionKind(toolCall.kind);
-    const decision = session.config.hooks?.onPermissionRequest?.({ kind: hookKind }) ?? { kind: 'denied-by-rules' as const };
+    emitAcpToolUpdate(session.config, toolCall, this.config.providerLabel, session.toolCalls);
+    const decision = await askPermission(
+      session.config,
+      toAcpPermissionRequest(toolCall, this.config.name, params.sessionId, session.config.contextId),
+      { kind: 'denied-by-rules' },
+    );
     const preferredKinds = decision.kind === 'approved'
       ? ['allow_once', 'allow_always']
       : ['reject_once', 'reject_always'];
@@ -355,6 +499,7 @@ export class AcpCliProviderBase implements AgentProvider {
     for (const session of this.sessions.values()) {
       session.destroyed = true;
       session.rejectInFlight?.(error);
+      void session.toolServer?.close();
       emitAgentEvent(session.config, 'error', `${this.config.providerLabel} ACP process failed: ${error.message}`);
     }
     this.sessions.clear();
@@ -384,6 +529,23 @@ export class AcpCliProviderBase implements AgentProvider {
   }
 }
 
+function mapAcpStopReason(stopReason: StopReason): AgentStopReason {
+  switch (stopReason) {
+    case 'end_turn':
+      return 'end_turn';
+    case 'max_tokens':
+      return 'max_tokens';
+    case 'max_turn_requests':
+      return 'max_turns';
+    case 'refusal':
+      return 'refusal';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'error';
+  }
+}
+
 function extractContentText(content: ContentBlock): string {
   return content.type === 'text' ? content.text : '';
 }
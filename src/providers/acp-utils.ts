@@ -1,11 +1,25 @@
 import type {
   ContentBlock,
+  SessionModeState,
+  ToolCallStatus as AcpToolCallStatus,
   ToolCallUpdate,
   ToolKind,
 } from '@agentclientprotocol/sdk';
-import type { AgentEventType } from '../types/events.js';
-import type { AgentAttachment, AgentSessionConfig } from '../types/providers.js';
+import type { AgentEventMetadata, AgentEventType, AgentPlanEntry, ToolCallStatus } from '../types/events.js';
+import type { AgentType } from '../types/agents.js';
+import type {
+  AgentAttachment,
+  AgentPermissionRequest,
+  AgentSessionConfig,
+  AgentSessionMode,
+  AgentToolResult,
+} from '../types/providers.js';
+import { createUnifiedDiff } from './diff.js';
 import { emitAgentEvent } from './events.js';
+import { readInputCommand, readInputPaths, readInputUrls } from './permissions.js';
+import { describePlan, normalizePlanPriority, normalizePlanStatus } from './plan.js';
+import type { ToolCallTracker } from './tool-calls.js';
+import { toolOutputText } from './tool-hooks.js';
 import {
   readFileAttachment,
   readLocalImageAttachment,
@@ -73,12 +87,18 @@ export function emitAcpToolUpdate(
   config: AgentSessionConfig,
   update: ToolCallUpdate,
   providerLabel: string,
-): void {
+  toolCalls: ToolCallTracker,
+): AgentEventMetadata {
   const kind = update.kind;
   const title = update.title ?? `${providerLabel} tool call`;
   const rawInput = update.rawInput;
   const rawOutput = update.rawOutput;
-  const file = update.locations?.map(location => location.path).find(Boolean);
+  const diffs = (update.content ?? []).flatMap(item => (item.type === 'diff' ? [item] : []));
+  const file = update.locations?.map(location => location.path).find(Boolean) ?? diffs[0]?.path;
+  const diff = diffs
+    .map(item => createUnifiedDiff(item.path, item.oldText, item.newText))
+    .filter(Boolean)
+    .join('\n');
   const eventType = mapAcpToolKindToEventType(kind);
   const content = rawOutput !== undefined
     ? stringifyToolValue(rawOutput)
@@ -86,26 +106,56 @@ export function emitAcpToolUpdate(
       ? `${title}: ${stringifyToolValue(rawInput)}`
       : title;
 
+  const status = mapAcpToolCallStatus(update.status)
+    ?? (toolCalls.has(update.toolCallId) ? 'running' : 'started');
+
+  const lifecycle = toolCalls.track(update.toolCallId, status, update.title ?? undefined);
   emitAgentEvent(config, eventType, content, {
-    command: kind === 'execute' ? extractCommand(rawInput) ?? title : title,
+    command: kind === 'execute' ? readInputCommand(rawInput) ?? title : title,
     file,
+    ...(diff ? { diff } : {}),
+    ...(kind === 'delete' ? { changeKind: 'deleted' as const } : {}),
+    ...lifecycle,
   });
+  return lifecycle;
+}
+
+/** Normalized result of a finished ACP tool call: rawOutput if the agent sent one, else its text content. */
+export function toAcpToolResult(update: ToolCallUpdate, failed: boolean): AgentToolResult {
+  const output = update.rawOutput !== undefined
+    ? toolOutputText(update.rawOutput)
+    : (update.content ?? [])
+        .flatMap(item => (item.type === 'content' && item.content.type === 'text' ? [item.content.text] : []))
+        .join('\n');
+  return { output, isError: failed, ...(update.rawOutput !== undefined ? { rawOutput: update.rawOutput } : {}) };
+}
+
+function mapAcpToolCallStatus(status: AcpToolCallStatus | null | undefined): ToolCallStatus | undefined {
+  switch (status) {
+    case 'pending':
+      return 'started';
+    case 'in_progress':
+      return 'running';
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    default:
+      return undefined;
+  }
 }
 
 export function emitAcpPlanUpdate(
   config: AgentSessionConfig,
-  update: { entries?: Array<{ status?: string; content?: string }> },
+  update: { entries?: Array<{ status?: string; content?: string; priority?: string }> },
 ): void {
-  const entries = update.entries ?? [];
-  const content = entries
-    .map(entry => {
-      const status = entry.status ?? 'pending';
-      const text = entry.content ?? '';
-      return text ? `${status}: ${text}` : '';
-    })
-    .filter(Boolean)
-    .join('\n');
-  if (content) emitAgentEvent(config, 'thinking', content);
+  // ACP sends the full plan on every update, so each event is a complete snapshot
+  const plan: AgentPlanEntry[] = (update.entries ?? []).flatMap(entry => {
+    if (!entry.content) return [];
+    const priority = normalizePlanPriority(entry.priority);
+    return [{ content: entry.content, status: normalizePlanStatus(entry.status), ...(priority ? { priority } : {}) }];
+  });
+  emitAgentEvent(config, 'plan', describePlan(plan), { plan });
 }
 
 function mapAcpToolKindToEventType(kind: ToolKind | null | undefined): AgentEventType {
@@ -127,6 +177,64 @@ function mapAcpToolKindToEventType(kind: ToolKind | null | undefined): AgentEven
   }
 }
 
+/**
+ * Name for an ACP tool call in permission requests and tool hooks. ACP has no
+ * tool names, so this is the call's kind (`edit`, `execute`, `fetch`, …), or
+ * its title when the agent sends no kind.
+ */
+export function acpToolName(toolCall: Pick<ToolCallUpdate, 'kind' | 'title'>): string | undefined {
+  return toolCall.kind ?? toolCall.title ?? undefined;
+}
+
+/** Normalize the tool call an ACP agent is asking permission for. */
+export function toAcpPermissionRequest(
+  toolCall: ToolCallUpdate,
+  agentType: AgentType,
+  sessionId: string,
+  contextId: string,
+): AgentPermissionRequest {
+  const paths = [
+    ...(toolCall.locations ?? []).map(location => location.path),
+    ...readInputPaths(toolCall.rawInput),
+  ].filter(Boolean);
+  const command = toolCall.kind === 'execute' ? readInputCommand(toolCall.rawInput) : undefined;
+  const urls = readInputUrls(toolCall.rawInput);
+  const toolName = acpToolName(toolCall);
+  return {
+    kind: mapAcpToolKindToPermissionKind(toolCall.kind),
+    ...(toolName ? { toolName } : {}),
+    toolCallId: toolCall.toolCallId,
+    ...(command ? { command } : {}),
+    ...(paths.length ? { paths: [...new Set(paths)] } : {}),
+    ...(urls.length ? { urls } : {}),
+    ...(toolCall.title ? { title: toolCall.title } : {}),
+    ...(toolCall.rawInput !== undefined ? { rawInput: toolCall.rawInput } : {}),
+    agentType,
+    sessionId,
+    contextId,
+  };
+}
+
+/** Mode ids ACP agents use for each session mode, most specific first (Claude Code, Gemini CLI, Codex, …) */
+const ACP_SESSION_MODE_IDS: Record<AgentSessionMode, string[]> = {
+  plan: ['plan', 'read-only', 'readonly', 'ask'],
+  edit: ['acceptedits', 'autoedit', 'auto-edit', 'auto', 'edit', 'default'],
+  full: ['bypasspermissions', 'full-access', 'yolo', 'full'],
+};
+
+/** Id of the agent's session mode matching `mode`, if it advertises one. */
+export function pickAcpSessionMode(
+  mode: AgentSessionMode,
+  modes: SessionModeState | null | undefined,
+): string | undefined {
+  const available = modes?.availableModes ?? [];
+  for (const id of ACP_SESSION_MODE_IDS[mode]) {
+    const match = available.find(candidate => candidate.id.toLowerCase() === id);
+    if (match) return match.id;
+  }
+  return undefined;
+}
+
 export function mapAcpToolKindToPermissionKind(kind: ToolKind | null | undefined): string {
   switch (kind) {
     case 'execute':
@@ -145,12 +253,6 @@ export function mapAcpToolKindToPermissionKind(kind: ToolKind | null | undefined
   }
 }
 
-function extractCommand(input: unknown): string | undefined {
-  return isObject(input)
-    ? getStringProperty(input, 'command') ?? getStringProperty(input, 'cmd')
-    : undefined;
-}
-
 function stringifyToolValue(value: unknown): string {
   if (typeof value === 'string') return value;
   try {
@@ -159,11 +261,3 @@ function stringifyToolValue(value: unknown): string {
     return String(value);
   }
 }
-
-function getStringProperty(value: unknown, key: string): string | undefined {
-  return isObject(value) && typeof value[key] === 'string' ? value[key] : undefined;
-}
-
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
-}
@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import { appendFile, readFile } from 'node:fs/promises';
+import type {
+  AuditedPermissionRule,
+  PermissionAuditEntry,
+  PermissionAuditLog,
+  PermissionAuditSink,
+  PermissionRule,
+} from '../types/providers.js';
+
+/** prevHash of the first entry in a log */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export interface PermissionAuditLogOptions {
+  /** JSONL file to append to when no sink is given */
+  file?: string;
+  /** Custom storage (database, log shipper, …); takes precedence over file */
+  sink?: PermissionAuditSink;
+}
+
+/**
+ * Hash-chained audit log of permission decisions. Entries are appended one
+ * at a time, each carrying the hash of the one before, so a log that was
+ * edited, reordered or truncated in the middle fails verifyPermissionAuditLog.
+ * Share one log across sessions to get a single chain.
+ */
+export function createPermissionAuditLog(options: PermissionAuditLogOptions): PermissionAuditLog {
+  const sink = options.sink ?? (options.file ? createJsonlAuditSink(options.file) : undefined);
+  if (!sink) throw new Error('createPermissionAuditLog requires a file or a sink');
+
+  let head: Promise<{ seq: number; hash: string }> | null = null;
+  // Appends are serialized so entries land in chain order
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    record: ({ request, decision, decidedBy, rule }) => {
+      const next = queue.then(async () => {
+        head ??= Promise.resolve(sink.last?.()).then(last => ({
+          seq: last?.seq ?? 0,
+          hash: last?.hash ?? AUDIT_GENESIS_HASH,
+        }));
+        const previous = await head;
+        const body: Omit<PermissionAuditEntry, 'hash'> = {
+          seq: previous.seq + 1,
+          timestamp: Date.now(),
+          contextId: request.contextId,
+          sessionId: request.sessionId,
+          agentType: request.agentType,
+          kind: request.kind,
+          ...(request.toolName ? { toolName: request.toolName } : {}),
+          ...(request.toolCallId ? { toolCallId: request.toolCallId } : {}),
+          ...(request.command ? { command: request.command } : {}),
+          ...(request.paths?.length ? { paths: request.paths } : {}),
+          ...(request.urls?.length ? { urls: request.urls } : {}),
+          ...(request.rawInput !== undefined ? { input: request.rawInput } : {}),
+          decision: decision.kind,
+          ...(decision.message ? { message: decision.message } : {}),
+          decidedBy,
+          ...(rule ? { rule: serializableRule(rule) } : {}),
+          prevHash: previous.hash,
+        };
+        const entry: PermissionAuditEntry = { ...body, hash: hashEntry(body) };
+        await sink.append(entry);
+        // Only advance the chain once the entry is stored
+        head = Promise.resolve({ seq: entry.seq, hash: entry.hash });
+        return entry;
+      });
+      queue = next.catch(() => {});
+      return next;
+    },
+  };
+}
+
+/** Append-only JSONL file sink (created with owner-only permissions). */
+export function createJsonlAuditSink(file: string): PermissionAuditSink {
+  return {
+    append: async entry => {
+      await appendFile(file, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+    },
+    last: async () => (await readPermissionAuditLog(file)).at(-1),
+  };
+}
+
+/** Read a JSONL audit log; a missing file is an empty log. */
+export async function readPermissionAuditLog(file: string): Promise<PermissionAuditEntry[]> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as PermissionAuditEntry);
+}
+
+/** Check a log's hash chain from the first entry, reporting the first entry that doesn't fit. */
+export function verifyPermissionAuditLog(
+  entries: PermissionAuditEntry[],
+): { valid: true } | { valid: false; seq: number; reason: string } {
+  let previous: PermissionAuditEntry | undefined;
+  for (const entry of entries) {
+    const { hash, ...body } = entry;
+    if (entry.prevHash !== (previous?.hash ?? AUDIT_GENESIS_HASH)) {
+      return { valid: false, seq: entry.seq, reason: 'prevHash does not match the previous entry' };
+    }
+    if (entry.seq !== (previous?.seq ?? 0) + 1) {
+      return { valid: false, seq: entry.seq, reason: `expected seq ${(previous?.seq ?? 0) + 1}` };
+    }
+    if (hashEntry(body) !== hash) {
+      return { valid: false, seq: entry.seq, reason: 'hash does not match the entry contents' };
+    }
+    previous = entry;
+  }
+  return { valid: true };
+}
+
+function hashEntry(body: Omit<PermissionAuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+}
+
+function serializableRule(rule: PermissionRule): AuditedPermissionRule {
+  const { command, ...rest } = rule;
+  if (command instanceof RegExp) return { ...rest, command: { source: command.source, flags: command.flags } };
+  return command === undefined ? rest : { ...rest, command };
+}
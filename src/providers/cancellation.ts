@@ -0,0 +1,85 @@
+import type { AgentAttachment, AgentExecuteOptions, AgentResult, AgentStopReason } from '../types/providers.js';
+
+type CancelReason = Extract<AgentStopReason, 'cancelled' | 'timed_out'>;
+
+/** Accept the legacy attachments-array form alongside the options object. */
+export function resolveExecuteOptions(options?: AgentExecuteOptions | AgentAttachment[]): AgentExecuteOptions {
+  return Array.isArray(options) ? { attachments: options } : options ?? {};
+}
+
+/** The result every provider reports for a call stopped by abort(), a signal, or a timeout. */
+export function cancelledResult(reason: CancelReason = 'cancelled', timeoutMs?: number): AgentResult {
+  return reason === 'timed_out'
+    ? { status: 'timed_out', error: `Execution timed out after ${timeoutMs}ms`, stopReason: 'timed_out' }
+    : { status: 'cancelled', stopReason: 'cancelled' };
+}
+
+/**
+ * Run one execute() call under the caller's signal and timeout. When either
+ * fires, `cancel` asks the SDK to stop the in-flight call, and the result it
+ * settles with is reported as cancelled or timed out. Call this inside the
+ * session's prompt lock so `cancel` can only reach this call.
+ */
+export async function runCancellable(
+  options: AgentExecuteOptions,
+  cancel: () => Promise<void>,
+  run: () => Promise<AgentResult>,
+): Promise<AgentResult> {
+  if (options.signal?.aborted) return cancelledResult('cancelled');
+  const watcher = watch(options, cancel);
+  try {
+    const result = await run();
+    if (!watcher.reason) return result;
+    const { error: _error, ...rest } = result;
+    return { ...rest, ...cancelledResult(watcher.reason, options.timeoutMs) };
+  } catch (err: unknown) {
+    if (watcher.reason) return cancelledResult(watcher.reason, options.timeoutMs);
+    throw err;
+  } finally {
+    watcher.dispose();
+  }
+}
+
+/** send() counterpart of runCancellable — a cancelled send simply resolves. */
+export async function sendCancellable(
+  options: AgentExecuteOptions,
+  cancel: () => Promise<void>,
+  send: () => Promise<void>,
+): Promise<void> {
+  if (options.signal?.aborted) return;
+  const watcher = watch(options, cancel);
+  try {
+    await send();
+  } catch (err: unknown) {
+    if (!watcher.reason) throw err;
+  } finally {
+    watcher.dispose();
+  }
+}
+
+function watch(
+  options: AgentExecuteOptions,
+  cancel: () => Promise<void>,
+): { readonly reason: CancelReason | undefined; dispose(): void } {
+  const { signal, timeoutMs } = options;
+  let reason: CancelReason | undefined;
+  const trigger = (next: CancelReason): void => {
+    if (reason) return;
+    reason = next;
+    // Cancellation is best-effort; the provider reports its own cancel failures
+    cancel().catch(() => undefined);
+  };
+  const onAbort = (): void => trigger('cancelled');
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs !== undefined ? setTimeout(() => trigger('timed_out'), timeoutMs) : undefined;
+
+  return {
+    get reason() {
+      return reason;
+    },
+    dispose() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
@@ -1,26 +1,78 @@
+import { resolve } from 'path';
 import { v4 as uuid } from 'uuid';
-import type { query as claudeQuery, SpawnOptions, SpawnedProcess } from '@anthropic-ai/claude-agent-sdk';
+import type {
+  CanUseTool,
+  HookCallbackMatcher,
+  HookEvent,
+  McpSdkServerConfigWithInstance,
+  McpServerConfig,
+  Options as ClaudeQueryOptions,
+  query as claudeQuery,
+  Query,
+  SpawnOptions,
+  SpawnedProcess,
+} from '@anthropic-ai/claude-agent-sdk';
 import type { AgentType } from '../types/agents.js';
+import type { AgentEventMetadata, AgentUsage } from '../types/events.js';
 import type {
   AgentProvider,
   AgentSession,
+  AgentExecuteOptions,
+  AgentOutputSchema,
+  AgentStreamItem,
   AgentSessionConfig,
   AgentResult,
   AgentAttachment,
+  AgentPermissionRequest,
+  AgentStopReason,
+  AgentTool,
+  AgentToolContext,
+  ClaudeSessionOptions,
+  McpServerConfig as AgentMcpServerConfig,
 } from '../types/providers.js';
 import { classifyToolKind } from './tool-classification.js';
+import { cancelledResult, resolveExecuteOptions, runCancellable, sendCancellable } from './cancellation.js';
+import { AGENT_TOOLS_SERVER_NAME, assertValidAgentTools, handleMcpToolMessage } from './custom-tools.js';
 import { diagnoseError, formatDiagnostic } from './diagnostics.js';
+import { normalizeMcpServers } from './mcp-servers.js';
 import { importOptionalPeer } from './peer-deps.js';
+import {
+  askPermission,
+  hasPermissionCheck,
+  permissionKindForTool,
+  readInputCommand,
+  readInputPaths,
+  readInputUrls,
+} from './permissions.js';
+import { createEditDiff } from './diff.js';
+import { describePlan, planFromTodoWrite } from './plan.js';
+import { applyOutputSchema } from './structured-output.js';
+import { SubagentTracker } from './subagents.js';
+import { ToolCallTracker } from './tool-calls.js';
+import { runPostToolUse, runPreToolUse, toolOutputText } from './tool-hooks.js';
+import { TurnRecorder, describeUsage } from './turn.js';
+import { createWorktreeRewriter } from './worktree.js';
 import { getSafeExtension, isAttachmentSizeValid } from './validation.js';
+import { isObject } from './guards.js';
 
-export interface ClaudeProviderOptions {
+export interface ClaudeProviderOptions extends Omit<ClaudeSessionOptions, 'mcpServers'> {
   model?: string;
-  /** Permission mode for Claude Code (default: 'acceptEdits') */
-  permissionMode?: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan' | 'dontAsk';
+  /** MCP servers by name for every session, including in-process SDK servers (createSdkMcpServer) */
+  mcpServers?: Record<string, McpServerConfig>;
+  /**
+   * Permission mode for Claude Code (default: 'acceptEdits'). Sessions with a
+   * permissionPolicy, onPermissionRequest hook or permissionAudit log use
+   * 'default' unless their `mode` is 'full'. A session's `mode` takes precedence.
+   */
+  permissionMode?: ClaudePermissionMode;
   /** Custom spawn function (e.g., to run Claude Code as a non-root user) */
   spawnClaudeCodeProcess?: (options: SpawnOptions) => SpawnedProcess;
+  /** How long abort() waits for Claude Code to stop after an interrupt before killing it (default: 5000) */
+  interruptGraceMs?: number;
 }
 
+type ClaudePermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan' | 'dontAsk';
+
 type ClaudeImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
 
 type ContentBlock =
@@ -75,15 +127,19 @@ export class ClaudeProvider implements AgentProvider {
   readonly name: AgentType = 'claude';
   readonly displayName = 'Claude Code';
   readonly model: string;
-  private permissionMode: 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan' | 'dontAsk';
+  private permissionMode?: ClaudePermissionMode;
   private spawnFn?: (options: SpawnOptions) => SpawnedProcess;
   private modelOverride?: string;
+  private interruptGraceMs: number;
+  private sessionDefaults: ClaudeProviderOptions;
 
   constructor(options?: ClaudeProviderOptions) {
     this.modelOverride = options?.model || process.env.CLAUDE_MODEL;
     this.model = this.modelOverride || 'configured default';
-    this.permissionMode = options?.permissionMode || 'acceptEdits';
+    this.permissionMode = options?.permissionMode;
     this.spawnFn = options?.spawnClaudeCodeProcess;
+    this.interruptGraceMs = options?.interruptGraceMs ?? 5000;
+    this.sessionDefaults = options ?? {};
   }
 
   async start(): Promise<void> {
@@ -95,11 +151,113 @@ export class ClaudeProvider implements AgentProvider {
   }
 
   async createSession(config: AgentSessionConfig): Promise<AgentSession> {
+    // bypassPermissions never calls canUseTool, so the policy would not be enforced and nothing would be audited
+    if (config.mode === 'full' && (config.permissionPolicy || config.permissionAudit)) {
+      throw new Error('Claude Code skips permission checks in full mode, so a permissionPolicy or permissionAudit would see no tool calls; use edit mode with them.');
+    }
     const model = this.modelOverride;
-    const permissionMode = this.permissionMode;
+    const permissionMode = toClaudePermissionMode(config, this.permissionMode);
+    const sessionOptions = buildClaudeSessionOptions(this.sessionDefaults, config);
     const spawnFn = this.spawnFn;
+    const interruptGraceMs = this.interruptGraceMs;
     let sessionId: string | null = config.resumeSessionId || null;
+    if (config.tools?.length) {
+      assertValidAgentTools(config.tools);
+      const contextId = config.contextId;
+      sessionOptions.mcpServers = {
+        ...sessionOptions.mcpServers,
+        [AGENT_TOOLS_SERVER_NAME]: await createClaudeToolServer(config.tools, () => ({ agentType: 'claude', sessionId, contextId })),
+      };
+      // Without a permission check Claude Code would refuse the tools; with one, they go through it like any MCP tool
+      if (!hasPermissionCheck(config)) {
+        sessionOptions.allowedTools = [...sessionOptions.allowedTools ?? [], `mcp__${AGENT_TOOLS_SERVER_NAME}`];
+      }
+    }
     let aborted = false;
+    // Handles on the in-flight query so abort() can stop it rather than wait for the next message
+    let activeQuery: Query | null = null;
+    let abortController: AbortController | null = null;
+    // Kills the CLI if it is still running interruptGraceMs after abort()
+    let killTimer: ReturnType<typeof setTimeout> | null = null;
+    const toolCalls = new ToolCallTracker();
+    const subagents = new SubagentTracker();
+    const turn = new TurnRecorder(config.onEvent);
+    config = { ...config, onEvent: turn.onEvent };
+
+    // Tools the permission mode doesn't already allow are put to the policy and the consumer's hook;
+    // read-only tools (Read, Glob, Grep, …) and allowedTools are allowed without asking, so they aren't audited
+    const canUseTool: CanUseTool | undefined = hasPermissionCheck(config)
+      ? async (toolName, input, options) => {
+          const request = toClaudePermissionRequest(toolName, input, options, sessionId, config.contextId);
+          const decision = await askPermission(config, request, { kind: 'approved' });
+          return decision.kind === 'approved'
+            ? { behavior: 'allow', updatedInput: input }
+            : { behavior: 'deny', message: decision.message ?? `Permission to use ${toolName} was denied` };
+        }
+      : undefined;
+
+    const toolHooks: Partial<Record<HookEvent, HookCallbackMatcher[]>> = {};
+
+    // The consumer's onPreToolUse sees the same input as on Copilot, then paths
+    // into the main checkout are pointed at the worktree before the tool runs
+    const worktree = createWorktreeRewriter(config, 'claude-provider');
+    if (worktree || config.hooks?.onPreToolUse) {
+      toolHooks.PreToolUse = [{
+        hooks: [async input => {
+          if (input.hook_event_name !== 'PreToolUse') return {};
+          let toolInput = input.tool_input;
+          if (config.hooks?.onPreToolUse) {
+            toolInput = runPreToolUse(config.hooks, {
+              sessionId: input.session_id,
+              timestamp: new Date(),
+              workingDirectory: input.cwd,
+              toolName: input.tool_name,
+              toolArgs: input.tool_input,
+              cwd: input.cwd,
+            }).toolArgs;
+          }
+          if (worktree) toolInput = worktree.rewrite(toolInput).value;
+          return toolInput !== input.tool_input && isObject(toolInput)
+            ? { hookSpecificOutput: { hookEventName: 'PreToolUse' as const, updatedInput: toolInput } }
+            : {};
+        }],
+      }];
+    }
+
+    // Tool results go through the consumer's hook before the model sees them
+    if (config.hooks?.onPostToolUse) {
+      toolHooks.PostToolUse = [{
+        hooks: [async input => {
+          if (input.hook_event_name !== 'PostToolUse') return {};
+          const override = await runPostToolUse(
+            config,
+            { toolName: input.tool_name, toolCallId: input.tool_use_id, input: input.tool_input, agentType: 'claude', sessionId: input.session_id, contextId: config.contextId },
+            { output: toolOutputText(input.tool_response), isError: false, rawOutput: input.tool_response },
+          );
+          if (!override) return {};
+          return {
+            hookSpecificOutput: {
+              hookEventName: 'PostToolUse' as const,
+              ...(override.output !== undefined ? { updatedToolOutput: override.output } : {}),
+              ...(override.additionalContext ? { additionalContext: override.additionalContext } : {}),
+            },
+          };
+        }],
+      }];
+      toolHooks.PostToolUseFailure = [{
+        hooks: [async input => {
+          if (input.hook_event_name !== 'PostToolUseFailure') return {};
+          const override = await runPostToolUse(
+            config,
+            { toolName: input.tool_name, toolCallId: input.tool_use_id, input: input.tool_input, agentType: 'claude', sessionId: input.session_id, contextId: config.contextId },
+            { output: input.error, isError: true },
+          );
+          return override?.additionalContext
+            ? { hookSpecificOutput: { hookEventName: 'PostToolUseFailure' as const, additionalContext: override.additionalContext } }
+            : {};
+        }],
+      }];
+    }
 
     // Mutex — Claude SDK doesn't support concurrent queries
     let queryLock: Promise<void> = Promise.resolve();
@@ -115,11 +273,17 @@ export class ClaudeProvider implements AgentProvider {
       attachments: AgentAttachment[] | undefined,
       onEvent: AgentSessionConfig['onEvent'],
       contextId: string,
+      outputSchema?: AgentOutputSchema,
     ): Promise<AgentResult> {
       let result: AgentResult = { status: 'complete' };
+      aborted = false;
+      const controller = new AbortController();
+      abortController = controller;
       const { query } = await importOptionalPeer<typeof import('@anthropic-ai/claude-agent-sdk')>('Claude Code', '@anthropic-ai/claude-agent-sdk');
       const contentBlocks = buildContentBlocks(prompt, attachments);
-      const messageGenerator = createMessageGenerator(contentBlocks) as Parameters<typeof claudeQuery>[0]['prompt'];
+      let endInput!: () => void;
+      const inputDone = new Promise<void>(resolve => { endInput = resolve; });
+      const messageGenerator = createMessageGenerator(contentBlocks, inputDone) as Parameters<typeof claudeQuery>[0]['prompt'];
 
       const response = query({
         prompt: messageGenerator,
@@ -127,85 +291,217 @@ export class ClaudeProvider implements AgentProvider {
           ...(model ? { model } : {}),
           cwd: config.workingDirectory,
           permissionMode,
+          ...sessionOptions,
+          ...(canUseTool ? { canUseTool } : {}),
+          ...(Object.keys(toolHooks).length ? { hooks: toolHooks } : {}),
           systemPrompt: config.systemPrompt,
           ...(sessionId ? { resume: sessionId } : {}),
           ...(spawnFn ? { spawnClaudeCodeProcess: spawnFn } : {}),
+          abortController: controller,
+          ...(outputSchema ? { outputFormat: { type: 'json_schema' as const, schema: outputSchema } } : {}),
         },
       });
+      activeQuery = response;
 
-      for await (const message of response) {
-        if (aborted) break;
+      try {
+        for await (const message of response) {
+          // After an interrupt, keep reading until the CLI finishes the turn or exits, so the
+          // grace-period kill stays armed while it is still running
+          if (aborted) {
+            if (message.type === 'result') break;
+            continue;
+          }
 
-        switch (message.type) {
-          case 'system':
-            if ('subtype' in message && message.subtype === 'init') {
-              sessionId = message.session_id;
-            }
-            break;
+          switch (message.type) {
+            case 'system':
+              if ('subtype' in message && message.subtype === 'init') {
+                sessionId = message.session_id;
+              }
+              break;
 
-          case 'assistant':
-            if ('message' in message && message.message && 'content' in message.message) {
-              const content = message.message.content;
-              if (Array.isArray(content)) {
-                for (const block of content) {
-                  if (block.type === 'text' && block.text) {
-                    onEvent({
-                      id: uuid(), contextId, type: 'output',
-                      content: block.text, timestamp: Date.now(),
-                    });
+            case 'assistant':
+              if ('message' in message && message.message && 'content' in message.message) {
+                const content = message.message.content;
+                if (Array.isArray(content)) {
+                  // Messages from a sub-agent carry the ID of the Task/Agent tool call that spawned it
+                  const parentId = message.parent_tool_use_id;
+                  for (const block of content) {
+                    if (block.type === 'text' && block.text) {
+                      onEvent({
+                        id: uuid(), contextId, type: 'output',
+                        content: block.text, timestamp: Date.now(),
+                        ...nestedMetadata(subagents.nest(parentId)),
+                      });
+                    } else if (block.type === 'tool_use' && SUBAGENT_TOOLS.has(block.name)) {
+                      const description = readStringProperty(block.input, 'description');
+                      const subagentName = readStringProperty(block.input, 'subagent_type') ?? readStringProperty(block.input, 'name');
+                      onEvent({
+                        id: uuid(), contextId, type: 'subagent_start',
+                        content: description ?? `Delegating to ${subagentName ?? 'a sub-agent'}`,
+                        timestamp: Date.now(),
+                        metadata: {
+                          ...(subagentName ? { subagentName } : {}),
+                          ...subagents.start(block.id, parentId),
+                          ...toolCalls.track(block.id, 'started', block.name),
+                        },
+                      });
+                    } else if (block.type === 'tool_use' && block.name === 'TodoWrite') {
+                      // TodoWrite always carries the full list, so it becomes a plan snapshot
+                      const plan = planFromTodoWrite(block.input) ?? [];
+                      onEvent({
+                        id: uuid(), contextId, type: 'plan',
+                        content: describePlan(plan), timestamp: Date.now(),
+                        metadata: { plan, ...subagents.nest(parentId, block.id), ...toolCalls.track(block.id, 'started', block.name) },
+                      });
+                    } else if (block.type === 'thinking' && block.thinking) {
+                      onEvent({
+                        id: uuid(), contextId, type: 'thinking',
+                        content: block.thinking, timestamp: Date.now(),
+                        ...nestedMetadata(subagents.nest(parentId)),
+                      });
+                    } else if (block.type === 'tool_use') {
+                      const kind = classifyToolKind(block.name);
+                      const file = kind === 'file_read' || kind === 'file_write' ? readInputPaths(block.input)[0] : undefined;
+                      const diff = kind === 'file_write' && file ? editDiff(file, block.input, config.workingDirectory) : undefined;
+                      onEvent({
+                        id: uuid(), contextId, type: kind,
+                        content: `${block.name}: ${JSON.stringify(block.input ?? {})}`,
+                        timestamp: Date.now(),
+                        metadata: {
+                          command: readInputCommand(block.input) ?? block.name,
+                          ...(file ? { file } : {}),
+                          ...(diff ? { diff } : {}),
+                          ...subagents.nest(parentId, block.id),
+                          ...toolCalls.track(block.id, 'started', block.name),
+                        },
+                      });
+                    }
                   }
                 }
               }
+              break;
+
+            case 'stream_event':
+              if (message.event?.type === 'content_block_delta') {
+                const delta = message.event.delta;
+                if (delta && 'text' in delta) {
+                  onEvent({
+                    id: uuid(), contextId, type: 'output',
+                    content: delta.text, timestamp: Date.now(),
+                    ...nestedMetadata(subagents.nest(message.parent_tool_use_id)),
+                  });
+                } else if (delta && 'thinking' in delta) {
+                  onEvent({
+                    id: uuid(), contextId, type: 'thinking',
+                    content: delta.thinking, timestamp: Date.now(),
+                    ...nestedMetadata(subagents.nest(message.parent_tool_use_id)),
+                  });
+                }
+              }
+              break;
+
+            case 'tool_progress': {
+              // A running sub-agent reports its own progress through its nested events
+              if (subagents.has(message.tool_use_id)) break;
+              const toolName = message.tool_name;
+              const kind = classifyToolKind(toolName);
+              onEvent({
+                id: uuid(), contextId, type: kind,
+                content: `Tool: ${toolName}`,
+                timestamp: Date.now(),
+                metadata: {
+                  command: toolName,
+                  ...subagents.nest(message.parent_tool_use_id, message.tool_use_id),
+                  ...toolCalls.track(message.tool_use_id, 'running', toolName),
+                },
+              });
+              break;
             }
-            break;
 
-          case 'stream_event':
-            if (message.event?.type === 'content_block_delta') {
-              const delta = message.event.delta;
-              if (delta && 'text' in delta) {
+            case 'user': {
+              // Tool results come back to the model as user-message tool_result blocks
+              const content = message.message.content;
+              if (!Array.isArray(content)) break;
+              for (const block of content) {
+                if (block.type !== 'tool_result') continue;
+                const status = block.is_error ? 'failed' : 'completed';
+                if (subagents.has(block.tool_use_id)) {
+                  // The Task/Agent tool result is the sub-agent's final report
+                  onEvent({
+                    id: uuid(), contextId, type: 'subagent_end',
+                    content: stringifyToolResult(block.content),
+                    timestamp: Date.now(),
+                    metadata: { ...subagents.end(block.tool_use_id), ...toolCalls.track(block.tool_use_id, status) },
+                  });
+                  continue;
+                }
                 onEvent({
-                  id: uuid(), contextId, type: 'output',
-                  content: delta.text, timestamp: Date.now(),
+                  id: uuid(), contextId, type: block.is_error ? 'error' : 'command_output',
+                  content: stringifyToolResult(block.content),
+                  timestamp: Date.now(),
+                  metadata: { ...subagents.nest(message.parent_tool_use_id, block.tool_use_id), ...toolCalls.track(block.tool_use_id, status) },
                 });
               }
+              break;
             }
-            break;
-
-          case 'tool_progress': {
-            const toolName = message.tool_name;
-            const kind = classifyToolKind(toolName);
-            onEvent({
-              id: uuid(), contextId, type: kind,
-              content: `Tool: ${toolName}`,
-              timestamp: Date.now(),
-              metadata: { command: toolName },
-            });
-            break;
-          }
 
-          case 'result':
-            if ('subtype' in message && message.subtype === 'success') {
+            case 'result': {
+              // The turn is over, so let the CLI exit
+              endInput();
+              const usage: AgentUsage = {
+                inputTokens: message.usage.input_tokens ?? 0,
+                outputTokens: message.usage.output_tokens ?? 0,
+                cachedInputTokens: message.usage.cache_read_input_tokens ?? 0,
+                cacheWriteTokens: message.usage.cache_creation_input_tokens ?? 0,
+                costUsd: message.total_cost_usd,
+              };
               onEvent({
-                id: uuid(), contextId, type: 'complete',
-                content: 'Claude Code completed the task.',
-                timestamp: Date.now(),
+                id: uuid(), contextId, type: 'usage',
+                content: describeUsage(usage), timestamp: Date.now(),
+                metadata: { usage },
               });
-              result = { status: 'complete' };
-            } else {
-              const errors = 'errors' in message && Array.isArray(message.errors)
-                ? message.errors.join('; ')
-                : `Agent ended with status: ${'subtype' in message ? message.subtype : 'unknown'}`;
-              onEvent({
-                id: uuid(), contextId, type: 'error',
-                content: errors, timestamp: Date.now(),
-              });
-              result = { status: 'failed', error: errors };
+              if (message.subtype === 'success') {
+                onEvent({
+                  id: uuid(), contextId, type: 'complete',
+                  content: 'Claude Code completed the task.',
+                  timestamp: Date.now(),
+                });
+                result = {
+                  status: 'complete',
+                  stopReason: mapClaudeStopReason(message.stop_reason),
+                  finalMessage: message.result,
+                  ...(message.structured_output !== undefined ? { data: message.structured_output } : {}),
+                };
+              } else {
+                const errors = 'errors' in message && Array.isArray(message.errors)
+                  ? message.errors.join('; ')
+                  : `Agent ended with status: ${'subtype' in message ? message.subtype : 'unknown'}`;
+                onEvent({
+                  id: uuid(), contextId, type: 'error',
+                  content: errors, timestamp: Date.now(),
+                });
+                result = { status: 'failed', error: errors, stopReason: mapClaudeErrorSubtype(message.subtype) };
+              }
+              break;
             }
-            break;
+          }
         }
+      } catch (err: unknown) {
+        // Killing the CLI after an unanswered interrupt ends the stream with an error
+        if (!aborted) throw err;
+      } finally {
+        endInput();
+        activeQuery = null;
+        abortController = null;
+        if (killTimer) clearTimeout(killTimer);
+        killTimer = null;
       }
       if (aborted) {
-        return { status: 'failed', error: 'Execution aborted' };
+        onEvent({
+          id: uuid(), contextId, type: 'cancelled',
+          content: 'Claude Code run cancelled.', timestamp: Date.now(),
+        });
+        return cancelledResult();
       }
       return result;
     }
@@ -215,11 +511,13 @@ export class ClaudeProvider implements AgentProvider {
         return sessionId;
       },
 
-      async execute(prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult> {
-        return withLock(async () => {
+      async execute(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult> {
+        const { attachments, outputSchema, ...cancellation } = resolveExecuteOptions(options);
+        return withLock(() => runCancellable(cancellation, () => agentSession.abort(), () => turn.run(async () => {
           try {
             const merged = [...(config.attachments || []), ...(attachments || [])];
-            return await runQuery(prompt, merged.length ? merged : undefined, config.onEvent, config.contextId);
+            const result = await runQuery(prompt, merged.length ? merged : undefined, config.onEvent, config.contextId, outputSchema);
+            return applyOutputSchema(result, outputSchema);
           } catch (err: unknown) {
             const message = err instanceof Error ? err.message : String(err);
             const diag = formatDiagnostic(diagnoseError('claude', message, config.workingDirectory));
@@ -227,16 +525,21 @@ export class ClaudeProvider implements AgentProvider {
               id: uuid(), contextId: config.contextId, type: 'error',
               content: `Claude SDK error: ${diag}`, timestamp: Date.now(),
             });
-            return { status: 'failed', error: diag };
+            return { status: 'failed', error: diag, stopReason: 'error' };
           }
-        });
+        })));
+      },
+
+      stream(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem> {
+        return turn.stream(() => agentSession.execute(prompt, options));
       },
 
-      async send(message: string, attachments?: AgentAttachment[]): Promise<void> {
+      async send(message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void> {
         if (!sessionId) {
           throw new Error('Claude session not initialized — execute() must be called first');
         }
-        await withLock(async () => {
+        const { attachments, ...cancellation } = resolveExecuteOptions(options);
+        await withLock(() => sendCancellable(cancellation, () => agentSession.abort(), () => turn.send(async () => {
           try {
             await runQuery(message, attachments, config.onEvent, config.contextId);
           } catch (err: unknown) {
@@ -247,11 +550,23 @@ export class ClaudeProvider implements AgentProvider {
               content: `Claude SDK error: ${diag}`, timestamp: Date.now(),
             });
           }
-        });
+        })));
       },
 
       async abort(): Promise<void> {
         aborted = true;
+        const query = activeQuery;
+        const controller = abortController;
+        if (!query || !controller) return;
+        // An interrupt stops the turn and keeps the transcript intact for resume;
+        // a CLI that doesn't stop within the grace period is killed instead
+        killTimer ??= setTimeout(() => controller.abort(), interruptGraceMs);
+        try {
+          await query.interrupt();
+        } catch {
+          // The CLI may not accept interrupts mid-startup; terminate the query instead
+          controller.abort();
+        }
       },
 
       async destroy(): Promise<void> {
@@ -263,7 +578,170 @@ export class ClaudeProvider implements AgentProvider {
   }
 }
 
-async function* createMessageGenerator(content: ContentBlock[]): AsyncGenerator<unknown> {
+/**
+ * MCP servers, tool lists, extra directories and turn limit for a session:
+ * the session's `claude` settings over the provider's. MCP servers merge by
+ * name (provider, then the session's `mcpServers`, then its `claude.mcpServers`)
+ * and are all validated the same way; disallowed tools add up, and plan mode
+ * never pre-approves write or shell tools.
+ */
+export function buildClaudeSessionOptions(
+  defaults: ClaudeProviderOptions,
+  config: Pick<AgentSessionConfig, 'workingDirectory' | 'mode' | 'claude' | 'mcpServers'>,
+): Pick<ClaudeQueryOptions, 'mcpServers' | 'allowedTools' | 'disallowedTools' | 'additionalDirectories' | 'maxTurns'> {
+  const session = config.claude ?? {};
+  const mcpServers = {
+    ...normalizeClaudeMcpServers(defaults.mcpServers),
+    ...normalizeMcpServers(config.mcpServers),
+    ...normalizeMcpServers(session.mcpServers),
+  };
+  const allowedTools = (session.allowedTools ?? defaults.allowedTools)?.filter(tool => (
+    config.mode !== 'plan' || !['write', 'shell'].includes(permissionKindForTool(tool.replace(/\(.*$/, '')))
+  ));
+  const disallowedTools = [...new Set([...defaults.disallowedTools ?? [], ...session.disallowedTools ?? []])];
+  const additionalDirectories = session.additionalDirectories ?? defaults.additionalDirectories;
+  const maxTurns = session.maxTurns ?? defaults.maxTurns;
+  return {
+    ...(Object.keys(mcpServers).length ? { mcpServers } : {}),
+    ...(allowedTools ? { allowedTools } : {}),
+    ...(disallowedTools.length ? { disallowedTools } : {}),
+    ...(additionalDirectories?.length
+      ? { additionalDirectories: additionalDirectories.map(dir => resolve(config.workingDirectory, dir)) }
+      : {}),
+    ...(maxTurns !== undefined ? { maxTurns } : {}),
+  };
+}
+
+/** normalizeMcpServers for Claude's own servers, passing in-process SDK servers through as they are. */
+function normalizeClaudeMcpServers(servers: Record<string, McpServerConfig> | undefined): Record<string, McpServerConfig> {
+  const sdkServers: Record<string, McpServerConfig> = {};
+  const others: Record<string, AgentMcpServerConfig> = {};
+  for (const [name, server] of Object.entries(servers ?? {})) {
+    if (server.type === 'sdk') sdkServers[name] = server;
+    else others[name] = server;
+  }
+  return { ...normalizeMcpServers(others), ...sdkServers };
+}
+
+/**
+ * In-process MCP server for custom tools. The server has no tools registered,
+ * so tools/list and tools/call reach its fallback handler and the tools' JSON
+ * schemas are served as they are instead of going through zod schemas.
+ */
+async function createClaudeToolServer(tools: AgentTool[], context: () => AgentToolContext): Promise<McpSdkServerConfigWithInstance> {
+  const { createSdkMcpServer } = await importOptionalPeer<typeof import('@anthropic-ai/claude-agent-sdk')>('Claude Code', '@anthropic-ai/claude-agent-sdk');
+  // An empty tool list still advertises the tools capability
+  const config = createSdkMcpServer({ name: AGENT_TOOLS_SERVER_NAME, tools: [] });
+  config.instance.server.fallbackRequestHandler = async request => {
+    const response = await handleMcpToolMessage(tools, request, context);
+    // A thrown error with a code is sent back as that JSON-RPC error
+    if (response?.error) throw Object.assign(new Error(response.error.message), { code: response.error.code });
+    return isObject(response?.result) ? response.result : {};
+  };
+  return config;
+}
+
+function toClaudePermissionMode(config: AgentSessionConfig, fallback: ClaudePermissionMode | undefined): ClaudePermissionMode {
+  if (config.mode === 'plan') return 'plan';
+  if (config.mode === 'full') return 'bypassPermissions';
+  // acceptEdits would let Edit and Write skip canUseTool, so a policy, hook or audit log gets every tool call
+  if (hasPermissionCheck(config)) return 'default';
+  if (config.mode === 'edit') return 'acceptEdits';
+  return fallback ?? 'acceptEdits';
+}
+
+function mapClaudeStopReason(stopReason: string | null): AgentStopReason {
+  switch (stopReason) {
+    case 'max_tokens':
+      return 'max_tokens';
+    case 'refusal':
+      return 'refusal';
+    default:
+      return 'end_turn';
+  }
+}
+
+function mapClaudeErrorSubtype(subtype: string): AgentStopReason {
+  switch (subtype) {
+    case 'error_max_turns':
+      return 'max_turns';
+    case 'error_max_budget_usd':
+      return 'max_budget';
+    default:
+      return 'error';
+  }
+}
+
+/** Flatten a tool_result payload (string or content blocks) into display text. */
+function stringifyToolResult(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => (isObject(block) && typeof block.text === 'string' ? block.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function toClaudePermissionRequest(
+  toolName: string,
+  input: Record<string, unknown>,
+  options: Parameters<CanUseTool>[2],
+  sessionId: string | null,
+  contextId: string,
+): AgentPermissionRequest {
+  const kind = permissionKindForTool(toolName);
+  const command = kind === 'shell' ? readInputCommand(input) : undefined;
+  const paths = [...new Set([...readInputPaths(input), ...(options.blockedPath ? [options.blockedPath] : [])])];
+  const urls = readInputUrls(input);
+  const title = options.title ?? options.description;
+  return {
+    kind,
+    toolName,
+    toolCallId: options.toolUseID,
+    ...(command ? { command } : {}),
+    ...(paths.length ? { paths } : {}),
+    ...(urls.length ? { urls } : {}),
+    ...(title ? { title } : {}),
+    rawInput: input,
+    agentType: 'claude',
+    sessionId,
+    contextId,
+  };
+}
+
+/** Tools that delegate to a sub-agent (`Task` in older SDK releases, `Agent` in newer ones) */
+const SUBAGENT_TOOLS = new Set(['Task', 'Agent']);
+
+/** Only attach metadata when there is some, so top-level text events stay metadata-free */
+function nestedMetadata(metadata: AgentEventMetadata): { metadata?: AgentEventMetadata } {
+  return metadata.parentId ? { metadata } : {};
+}
+
+/**
+ * Edit carries one `old_string`/`new_string` pair and MultiEdit an `edits`
+ * array of them; Write only has the new content, so it gets no diff.
+ */
+function editDiff(file: string, input: unknown, workingDirectory: string): string | undefined {
+  if (!isObject(input)) return undefined;
+  const edits = Array.isArray(input.edits) ? input.edits : [input];
+  return createEditDiff(file, workingDirectory, edits.flatMap(edit => {
+    const oldText = readStringProperty(edit, 'old_string');
+    const newText = readStringProperty(edit, 'new_string');
+    const replaceAll = isObject(edit) && edit.replace_all === true;
+    return oldText !== undefined && newText !== undefined ? [{ oldText, newText, replaceAll }] : [];
+  }));
+}
+
+function readStringProperty(value: unknown, key: string): string | undefined {
+  return isObject(value) && typeof value[key] === 'string' ? value[key] : undefined;
+}
+
+/**
+ * The prompt as a one-message stream that stays open until `done`. The SDK
+ * closes the CLI's stdin when the stream ends, and an interrupt can only be
+ * sent while stdin is open.
+ */
+async function* createMessageGenerator(content: ContentBlock[], done: Promise<void>): AsyncGenerator<unknown> {
   yield {
     type: 'user' as const,
     message: {
@@ -273,4 +751,5 @@ async function* createMessageGenerator(content: ContentBlock[]): AsyncGenerator<
     parent_tool_use_id: null,
     session_id: '',
   };
+  await done;
 }
@@ -1,26 +1,111 @@
 import { v4 as uuid } from 'uuid';
-import type { Codex } from '@openai/codex-sdk';
+import type { Codex, CodexOptions, ThreadOptions } from '@openai/codex-sdk';
 import type { AgentType } from '../types/agents.js';
+import type { AgentEventMetadata, AgentPlanEntry, AgentUsage, FileChangeKind, ToolCallStatus } from '../types/events.js';
 import type {
   AgentProvider,
   AgentSession,
+  AgentExecuteOptions,
+  AgentStreamItem,
   AgentSessionConfig,
   AgentResult,
   AgentAttachment,
+  AgentSessionMode,
+  CodexSessionOptions,
+  McpServerConfig,
 } from '../types/providers.js';
 import { getToolDisplayName } from './tool-classification.js';
+import { cancelledResult, resolveExecuteOptions, runCancellable, sendCancellable } from './cancellation.js';
 import { diagnoseError, formatDiagnostic } from './diagnostics.js';
+import { isRemoteMcpServer, normalizeMcpServers } from './mcp-servers.js';
 import { importOptionalPeer } from './peer-deps.js';
+import { describePlan } from './plan.js';
+import { applyOutputSchema } from './structured-output.js';
+import { ToolCallTracker } from './tool-calls.js';
+import { runPostToolUse, toolOutputText } from './tool-hooks.js';
+import { TurnRecorder, describeUsage } from './turn.js';
 import { getSafeExtension, isAttachmentSizeValid, isPathWithinBoundary } from './validation.js';
 import { writeFile, unlink } from 'fs/promises';
 import { tmpdir } from 'os';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { randomUUID } from 'crypto';
 
-export interface CodexProviderOptions {
+export interface CodexProviderOptions extends CodexSessionOptions {
   model?: string;
 }
 
+/** Codex has no permission callback, so a session's mode is enforced by the sandbox alone */
+const CODEX_SANDBOX_MODES: Record<AgentSessionMode, NonNullable<CodexSessionOptions['sandboxMode']>> = {
+  plan: 'read-only',
+  edit: 'workspace-write',
+  full: 'danger-full-access',
+};
+
+const CODEX_TOOL_ITEM_TYPES = new Set(['command_execution', 'file_change', 'mcp_tool_call', 'web_search']);
+
+function mapCodexChangeKind(kind: string): FileChangeKind {
+  switch (kind) {
+    case 'add':
+      return 'created';
+    case 'delete':
+      return 'deleted';
+    default:
+      return 'modified';
+  }
+}
+
+/**
+ * Thread options for a session: the session's `codex` settings over the
+ * provider's, with the sandbox following `mode` unless the session sets one.
+ * Plan mode is always read-only.
+ */
+export function buildCodexThreadOptions(
+  defaults: CodexProviderOptions,
+  config: Pick<AgentSessionConfig, 'workingDirectory' | 'mode' | 'codex'>,
+): ThreadOptions {
+  const settings: CodexSessionOptions = { ...defaults, ...config.codex };
+  const sandboxMode = config.mode === 'plan'
+    ? 'read-only'
+    : config.codex?.sandboxMode ?? (config.mode ? CODEX_SANDBOX_MODES[config.mode] : defaults.sandboxMode ?? 'workspace-write');
+  return {
+    ...(defaults.model ? { model: defaults.model } : {}),
+    workingDirectory: config.workingDirectory,
+    skipGitRepoCheck: settings.skipGitRepoCheck ?? true,
+    sandboxMode,
+    ...(settings.approvalPolicy ? { approvalPolicy: settings.approvalPolicy } : {}),
+    ...(settings.networkAccessEnabled !== undefined ? { networkAccessEnabled: settings.networkAccessEnabled } : {}),
+    ...(settings.modelReasoningEffort ? { modelReasoningEffort: settings.modelReasoningEffort } : {}),
+    ...(settings.additionalDirectories?.length
+      ? { additionalDirectories: settings.additionalDirectories.map(dir => resolve(config.workingDirectory, dir)) }
+      : {}),
+  };
+}
+
+/**
+ * `--config` overrides declaring MCP servers (`mcp_servers.<name>`) for the
+ * Codex CLI. Codex speaks stdio and streamable HTTP only, so SSE servers are
+ * left out with a warning.
+ */
+export function buildCodexMcpConfig(servers: Record<string, McpServerConfig>): NonNullable<CodexOptions['config']> {
+  const mcpServers: NonNullable<CodexOptions['config']> = {};
+  for (const [name, server] of Object.entries(servers)) {
+    if (isRemoteMcpServer(server)) {
+      if (server.type === 'sse') {
+        console.warn(`[codex-provider] skipping MCP server ${name}: Codex does not support SSE MCP servers`);
+        continue;
+      }
+      mcpServers[name] = { url: server.url, ...(server.headers ? { http_headers: server.headers } : {}) };
+    } else {
+      mcpServers[name] = {
+        command: server.command,
+        ...(server.args?.length ? { args: server.args } : {}),
+        ...(server.env ? { env: server.env } : {}),
+      };
+    }
+  }
+  return { mcp_servers: mcpServers };
+}
+
 type CodexInput = { type: 'text'; text: string } | { type: 'local_image'; path: string };
 
 export class CodexProvider implements AgentProvider {
@@ -29,21 +114,25 @@ export class CodexProvider implements AgentProvider {
   readonly model: string;
 
   private codex: Codex | null = null;
-  private modelOverride?: string;
+  private codexClass: typeof Codex | null = null;
+  private options: CodexProviderOptions;
 
   constructor(options?: CodexProviderOptions) {
-    this.modelOverride = options?.model || process.env.CODEX_MODEL;
-    this.model = this.modelOverride || 'configured default';
+    const model = options?.model || process.env.CODEX_MODEL;
+    this.options = { ...options, model };
+    this.model = model || 'configured default';
   }
 
   async start(): Promise<void> {
     const { Codex } = await importOptionalPeer<typeof import('@openai/codex-sdk')>('Codex', '@openai/codex-sdk');
+    this.codexClass = Codex;
     this.codex = new Codex();
     console.log(`[codex-provider] SDK initialized (model: ${this.model})`);
   }
 
   async stop(): Promise<void> {
     this.codex = null;
+    this.codexClass = null;
   }
 
   async createSession(config: AgentSessionConfig): Promise<AgentSession> {
@@ -51,26 +140,32 @@ export class CodexProvider implements AgentProvider {
       throw new Error('Codex client not initialized — call start() first');
     }
 
-    const threadOptions = {
-      ...(this.modelOverride ? { model: this.modelOverride } : {}),
-      workingDirectory: config.workingDirectory,
-      skipGitRepoCheck: true,
-      sandboxMode: 'workspace-write' as const,
-    };
+    if (config.tools?.length) {
+      console.warn('[codex-provider] custom tools are not supported by the Codex SDK; they are ignored');
+    }
+    const threadOptions = buildCodexThreadOptions(this.options, config);
+    // MCP servers can only be set on the client (as CLI config), so a session with its own gets its own client
+    const mcpServers = normalizeMcpServers(config.mcpServers);
+    const codex = Object.keys(mcpServers).length && this.codexClass
+      ? new this.codexClass({ config: buildCodexMcpConfig(mcpServers) })
+      : this.codex;
 
-    let thread;
+    let thread: ReturnType<Codex['startThread']>;
     if (config.resumeSessionId) {
       try {
-        thread = this.codex.resumeThread(config.resumeSessionId, threadOptions);
+        thread = codex.resumeThread(config.resumeSessionId, threadOptions);
       } catch {
         console.log('[codex-provider] resume failed, starting new thread');
-        thread = this.codex.startThread(threadOptions);
+        thread = codex.startThread(threadOptions);
       }
     } else {
-      thread = this.codex.startThread(threadOptions);
+      thread = codex.startThread(threadOptions);
     }
 
     let abortController: AbortController | null = null;
+    const toolCalls = new ToolCallTracker();
+    const turn = new TurnRecorder(config.onEvent);
+    config = { ...config, onEvent: turn.onEvent };
     const tempFiles: string[] = [];
 
     async function buildInput(text: string, attachments?: AgentAttachment[]): Promise<CodexInput[]> {
@@ -117,15 +212,70 @@ export class CodexProvider implements AgentProvider {
     interface CodexStreamEvent {
       type: string;
       item?: {
+        id?: string;
         type: string;
+        status?: string;
+        exit_code?: number;
         text?: string;
         command?: string;
+        server?: string;
         tool?: string;
+        arguments?: unknown;
+        result?: { content?: unknown[] };
+        error?: { message?: string };
+        query?: string;
+        message?: string;
         aggregated_output?: string;
         changes?: Array<{ kind: string; path: string }>;
+        items?: Array<{ text: string; completed: boolean }>;
       };
       error?: { message?: string };
       message?: string;
+      usage?: {
+        input_tokens: number;
+        cached_input_tokens: number;
+        output_tokens: number;
+        reasoning_output_tokens?: number;
+      };
+    }
+    type CodexItem = NonNullable<CodexStreamEvent['item']>;
+
+    /** Lifecycle metadata for Codex items that represent tool invocations. */
+    function trackToolItem(item: CodexItem, status: ToolCallStatus): AgentEventMetadata | undefined {
+      if (!item.id || !CODEX_TOOL_ITEM_TYPES.has(item.type)) return undefined;
+      const toolName = item.type === 'mcp_tool_call' && item.tool ? item.tool : item.type;
+      return toolCalls.track(item.id, status, toolName);
+    }
+
+    /** Arguments of a tool item, as reported to onPostToolUse. */
+    function toolItemInput(item: CodexItem): unknown {
+      switch (item.type) {
+        case 'command_execution':
+          return item.command ? { command: item.command } : undefined;
+        case 'mcp_tool_call':
+          return item.arguments;
+        case 'web_search':
+          return item.query ? { query: item.query } : undefined;
+        default:
+          return undefined;
+      }
+    }
+
+    /** Codex re-sends the whole todo_list item on every change, so each is a full plan snapshot. */
+    function emitTodoList(
+      item: CodexItem,
+      contextId: string,
+      onEvent: AgentSessionConfig['onEvent'],
+    ): void {
+      const plan: AgentPlanEntry[] = (item.items ?? []).map(todo => ({
+        content: todo.text,
+        status: todo.completed ? 'completed' : 'pending',
+      }));
+      onEvent({
+        id: uuid(), contextId, type: 'plan',
+        content: describePlan(plan), timestamp: Date.now(),
+        metadata: { plan },
+      });
     }
 
     async function processEvents(
@@ -134,50 +284,182 @@ export class CodexProvider implements AgentProvider {
       onEvent: AgentSessionConfig['onEvent'],
       signal: AbortSignal | undefined,
     ): Promise<AgentResult> {
-      let result: AgentResult = { status: 'complete' };
+      let result: AgentResult = { status: 'complete', stopReason: 'end_turn' };
+      let finalMessage: string | undefined;
+      // Codex reports the full text so far on every update; remember what was emitted per item to send only the new part
+      const streamed = new Map<string, string>();
+
+      /** The unseen part of an item's text, or the whole text with `replace` when Codex rewrote what was already sent. */
+      function takeDelta(item: CodexItem, text: string): { content: string; replace: boolean } | undefined {
+        if (!item.id) return { content: text, replace: false };
+        const previous = streamed.get(item.id) ?? '';
+        if (text === previous) return undefined;
+        streamed.set(item.id, text);
+        return text.startsWith(previous)
+          ? { content: text.slice(previous.length), replace: false }
+          : { content: text, replace: true };
+      }
+
+      /** Stream the growing text of an agent message, reasoning summary or command, on start, update or completion. */
+      function emitItemProgress(item: CodexItem, lifecycle: AgentEventMetadata | undefined, final: boolean): void {
+        switch (item.type) {
+          case 'agent_message': {
+            // The completion ends the message with a newline, but only when there is new text to send
+            const delta = takeDelta(item, item.text ?? '');
+            if (!delta) break;
+            onEvent({
+              id: uuid(), contextId, type: 'output',
+              content: delta.content + (final ? '\n' : ''),
+              timestamp: Date.now(),
+              ...(delta.replace ? { metadata: { replace: true } } : {}),
+            });
+            break;
+          }
+          case 'reasoning': {
+            const delta = takeDelta(item, item.text ?? '');
+            if (!delta) break;
+            onEvent({
+              id: uuid(), contextId, type: 'thinking',
+              content: delta.content, timestamp: Date.now(),
+              ...(delta.replace ? { metadata: { replace: true } } : {}),
+            });
+            break;
+          }
+          case 'command_execution': {
+            // The completed event always goes out, so consumers see the exit status even with no new output
+            const delta = takeDelta(item, item.aggregated_output ?? '');
+            if (!delta && !final) break;
+            onEvent({
+              id: uuid(), contextId, type: 'command_output',
+              content: delta?.content ?? '', timestamp: Date.now(),
+              metadata: { ...lifecycle, ...(delta?.replace ? { replace: true } : {}) },
+            });
+            break;
+          }
+        }
+      }
+
+      function emitToolStart(item: CodexItem, lifecycle: AgentEventMetadata | undefined): void {
+        switch (item.type) {
+          case 'command_execution':
+            onEvent({
+              id: uuid(), contextId, type: 'command',
+              content: `$ ${item.command || ''}`,
+              timestamp: Date.now(),
+              metadata: { command: item.command, ...lifecycle },
+            });
+            break;
+          case 'mcp_tool_call':
+            onEvent({
+              id: uuid(), contextId, type: 'tool_call',
+              content: `${item.server}/${item.tool}: ${JSON.stringify(item.arguments ?? {})}`,
+              timestamp: Date.now(),
+              metadata: { command: `${item.server}/${item.tool}`, ...lifecycle },
+            });
+            break;
+          case 'web_search':
+            onEvent({
+              id: uuid(), contextId, type: 'tool_call',
+              content: `Searching the web: ${item.query || ''}`,
+              timestamp: Date.now(),
+              metadata: { command: 'web_search', ...lifecycle },
+            });
+            break;
+          default:
+            onEvent({
+              id: uuid(), contextId, type: 'command',
+              content: `Started: ${getToolDisplayName(item)}`,
+              timestamp: Date.now(),
+              metadata: { command: item.type, ...lifecycle },
+            });
+            break;
+        }
+      }
 
       for await (const event of events) {
         if (signal?.aborted) break;
 
         switch (event.type) {
           case 'item.started':
-            if (event.item?.type) {
-              onEvent({
-                id: uuid(), contextId, type: 'command',
-                content: `Started: ${getToolDisplayName(event.item)}`,
-                timestamp: Date.now(),
-                metadata: { command: event.item.type },
-              });
+            if (event.item?.type === 'todo_list') {
+              emitTodoList(event.item, contextId, onEvent);
+            } else if (event.item?.type === 'agent_message' || event.item?.type === 'reasoning') {
+              emitItemProgress(event.item, undefined, false);
+            } else if (event.item?.type) {
+              emitToolStart(event.item, trackToolItem(event.item, 'started'));
+            }
+            break;
+
+          case 'item.updated':
+            if (event.item?.type === 'todo_list') {
+              emitTodoList(event.item, contextId, onEvent);
+            } else if (event.item) {
+              const lifecycle = event.item.type === 'command_execution' ? trackToolItem(event.item, 'running') : undefined;
+              emitItemProgress(event.item, lifecycle, false);
             }
             break;
 
           case 'item.completed':
             if (event.item) {
+              const failed = event.item.status === 'failed'
+                || (typeof event.item.exit_code === 'number' && event.item.exit_code !== 0);
+              // Items Codex only reports once completed still get their start event
+              if (event.item.id && CODEX_TOOL_ITEM_TYPES.has(event.item.type) && event.item.type !== 'file_change'
+                && !toolCalls.has(event.item.id)) {
+                emitToolStart(event.item, trackToolItem(event.item, 'started'));
+              }
+              const lifecycle = trackToolItem(event.item, failed ? 'failed' : 'completed');
+              const mcpOutput = event.item.type === 'mcp_tool_call'
+                ? (failed ? event.item.error?.message || 'MCP tool call failed' : toolOutputText(event.item.result))
+                : undefined;
+              if (lifecycle?.toolName) {
+                // Codex has already handed the result to the model, so the hook can only observe it
+                const input = toolItemInput(event.item);
+                void runPostToolUse(
+                  { hooks: config.hooks, contextId, onEvent },
+                  {
+                    toolName: lifecycle.toolName,
+                    toolCallId: lifecycle.toolCallId,
+                    ...(input !== undefined ? { input } : {}),
+                    agentType: 'codex',
+                    sessionId: thread.id,
+                    contextId,
+                  },
+                  { output: mcpOutput ?? event.item.aggregated_output ?? '', isError: failed, rawOutput: event.item },
+                );
+              }
               switch (event.item.type) {
                 case 'agent_message':
-                  onEvent({
-                    id: uuid(), contextId, type: 'output',
-                    content: (event.item.text || '') + '\n',
-                    timestamp: Date.now(),
-                  });
+                  finalMessage = event.item.text;
+                  emitItemProgress(event.item, undefined, true);
+                  break;
+                case 'todo_list':
+                  emitTodoList(event.item, contextId, onEvent);
                   break;
                 case 'reasoning':
+                case 'command_execution':
+                  emitItemProgress(event.item, lifecycle, true);
+                  break;
+                case 'mcp_tool_call':
                   onEvent({
-                    id: uuid(), contextId, type: 'thinking',
-                    content: event.item.text || '',
-                    timestamp: Date.now(),
+                    id: uuid(), contextId, type: failed ? 'error' : 'command_output',
+                    content: mcpOutput ?? '', timestamp: Date.now(),
+                    metadata: { ...lifecycle, ...(failed ? { error: mcpOutput } : {}) },
                   });
                   break;
-                case 'command_execution':
+                case 'web_search':
                   onEvent({
-                    id: uuid(), contextId, type: 'command',
-                    content: `$ ${event.item.command || ''}`,
+                    id: uuid(), contextId, type: 'tool_call',
+                    content: `Searched the web: ${event.item.query || ''}`,
                     timestamp: Date.now(),
-                    metadata: { command: event.item.command },
+                    metadata: { command: 'web_search', ...lifecycle },
                   });
+                  break;
+                case 'error':
+                  // Non-fatal: Codex carries on with the turn
                   onEvent({
-                    id: uuid(), contextId, type: 'command_output',
-                    content: event.item.aggregated_output || '',
+                    id: uuid(), contextId, type: 'error',
+                    content: event.item.message || 'Codex reported an error',
                     timestamp: Date.now(),
                   });
                   break;
@@ -188,7 +470,7 @@ export class CodexProvider implements AgentProvider {
                       id: uuid(), contextId, type: 'file_write',
                       content: `${change.kind}: ${change.path}`,
                       timestamp: Date.now(),
-                      metadata: { file: change.path },
+                      metadata: { file: change.path, changeKind: mapCodexChangeKind(change.kind), ...lifecycle },
                     });
                   }
                   break;
@@ -198,12 +480,27 @@ export class CodexProvider implements AgentProvider {
             break;
 
           case 'turn.completed':
+            if (event.usage) {
+              const usage: AgentUsage = {
+                inputTokens: event.usage.input_tokens,
+                outputTokens: event.usage.output_tokens,
+                cachedInputTokens: event.usage.cached_input_tokens,
+                ...(event.usage.reasoning_output_tokens !== undefined
+                  ? { reasoningTokens: event.usage.reasoning_output_tokens }
+                  : {}),
+              };
+              onEvent({
+                id: uuid(), contextId, type: 'usage',
+                content: describeUsage(usage), timestamp: Date.now(),
+                metadata: { usage },
+              });
+            }
             onEvent({
               id: uuid(), contextId, type: 'complete',
               content: 'Codex completed the task.',
               timestamp: Date.now(),
             });
-            return { status: 'complete' };
+            return { status: 'complete', stopReason: 'end_turn', finalMessage };
 
           case 'turn.failed': {
             const errorMsg = event.error?.message || 'Codex turn failed';
@@ -211,7 +508,7 @@ export class CodexProvider implements AgentProvider {
               id: uuid(), contextId, type: 'error',
               content: errorMsg, timestamp: Date.now(),
             });
-            return { status: 'failed', error: errorMsg };
+            return { status: 'failed', error: errorMsg, stopReason: 'error', finalMessage };
           }
 
           case 'error': {
@@ -220,16 +517,16 @@ export class CodexProvider implements AgentProvider {
               id: uuid(), contextId, type: 'error',
               content: errorMsg, timestamp: Date.now(),
             });
-            result = { status: 'failed', error: errorMsg };
+            result = { status: 'failed', error: errorMsg, stopReason: 'error' };
             break;
           }
         }
       }
 
       if (signal?.aborted) {
-        return { status: 'failed', error: 'Execution aborted' };
+        return { ...cancelledResult(), finalMessage };
       }
-      return result;
+      return { ...result, finalMessage };
     }
 
     const agentSession: AgentSession = {
@@ -237,41 +534,62 @@ export class CodexProvider implements AgentProvider {
         return thread.id;
       },
 
-      async execute(prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult> {
-        abortController = new AbortController();
-        try {
-          const merged = [...(config.attachments || []), ...(attachments || [])];
-          const input = await buildInput(
-            `${config.systemPrompt}\n\n${prompt}`,
-            merged.length ? merged : undefined,
-          );
-          const { events } = await thread.runStreamed(input);
-          return await processEvents(events, config.contextId, config.onEvent, abortController.signal);
-        } catch (err: unknown) {
-          const message = err instanceof Error ? err.message : String(err);
-          const diag = formatDiagnostic(diagnoseError('codex', message, config.workingDirectory));
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'error',
-            content: `Codex SDK error: ${diag}`, timestamp: Date.now(),
-          });
-          return { status: 'failed', error: diag };
-        }
+      execute: (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult> => {
+        const { attachments, outputSchema, ...cancellation } = resolveExecuteOptions(options);
+        return runCancellable(cancellation, () => agentSession.abort(), () => turn.run(async () => {
+          const controller = new AbortController();
+          abortController = controller;
+          try {
+            const merged = [...(config.attachments || []), ...(attachments || [])];
+            const input = await buildInput(
+              `${config.systemPrompt}\n\n${prompt}`,
+              merged.length ? merged : undefined,
+            );
+            // Codex enforces the schema natively; the reply is still validated before it becomes data
+            const { events } = await thread.runStreamed(input, {
+              signal: controller.signal,
+              ...(outputSchema ? { outputSchema } : {}),
+            });
+            const result = await processEvents(events, config.contextId, config.onEvent, controller.signal);
+            return applyOutputSchema(result, outputSchema);
+          } catch (err: unknown) {
+            if (controller.signal.aborted) {
+              return cancelledResult();
+            }
+            const message = err instanceof Error ? err.message : String(err);
+            const diag = formatDiagnostic(diagnoseError('codex', message, config.workingDirectory));
+            config.onEvent({
+              id: uuid(), contextId: config.contextId, type: 'error',
+              content: `Codex SDK error: ${diag}`, timestamp: Date.now(),
+            });
+            return { status: 'failed', error: diag, stopReason: 'error' };
+          }
+        }));
       },
 
-      async send(message: string, attachments?: AgentAttachment[]): Promise<void> {
-        abortController = new AbortController();
-        try {
-          const input = await buildInput(message, attachments);
-          const { events } = await thread.runStreamed(input);
-          await processEvents(events, config.contextId, config.onEvent, abortController.signal);
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err);
-          const diag = formatDiagnostic(diagnoseError('codex', msg, config.workingDirectory));
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'error',
-            content: `Codex SDK error: ${diag}`, timestamp: Date.now(),
-          });
-        }
+      stream(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem> {
+        return turn.stream(() => agentSession.execute(prompt, options));
+      },
+
+      async send(message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void> {
+        const { attachments, ...cancellation } = resolveExecuteOptions(options);
+        await sendCancellable(cancellation, () => agentSession.abort(), () => turn.send(async () => {
+          const controller = new AbortController();
+          abortController = controller;
+          try {
+            const input = await buildInput(message, attachments);
+            const { events } = await thread.runStreamed(input, { signal: controller.signal });
+            await processEvents(events, config.contextId, config.onEvent, controller.signal);
+          } catch (err: unknown) {
+            if (controller.signal.aborted) return;
+            const msg = err instanceof Error ? err.message : String(err);
+            const diag = formatDiagnostic(diagnoseError('codex', msg, config.workingDirectory));
+            config.onEvent({
+              id: uuid(), contextId: config.contextId, type: 'error',
+              content: `Codex SDK error: ${diag}`, timestamp: Date.now(),
+            });
+          }
+        }));
       },
 
       async abort(): Promise<void> {
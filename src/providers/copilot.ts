@@ -7,19 +7,37 @@ import type {
   PermissionRequestResult,
   SessionConfig,
   SessionEvent,
+  Tool as CopilotTool,
 } from '@github/copilot-sdk';
 import type { AgentType } from '../types/agents.js';
+import type { AgentUsage } from '../types/events.js';
 import type {
   AgentProvider,
   AgentSession,
+  AgentExecuteOptions,
+  AgentStreamItem,
   AgentSessionConfig,
   AgentResult,
   AgentAttachment,
+  AgentPermissionRequest,
 } from '../types/providers.js';
 import { classifyToolKind } from './tool-classification.js';
+import { cancelledResult, resolveExecuteOptions, runCancellable, sendCancellable } from './cancellation.js';
+import { assertValidAgentTools, runAgentTool, toolInputSchema } from './custom-tools.js';
 import { diagnoseError, formatDiagnostic } from './diagnostics.js';
+import { normalizeMcpServers } from './mcp-servers.js';
+import { createEditDiff, createUnifiedDiff } from './diff.js';
 import { importOptionalPeer } from './peer-deps.js';
+import { askPermission, recordPermission } from './permissions.js';
+import { describePlan, planFromChecklist } from './plan.js';
+import { runWithOutputSchema } from './structured-output.js';
+import { SubagentTracker } from './subagents.js';
+import { ToolCallTracker } from './tool-calls.js';
+import { runPostToolUse, runPreToolUse } from './tool-hooks.js';
+import { TurnRecorder, describeUsage } from './turn.js';
+import { createWorktreeRewriter } from './worktree.js';
 import { getSafeExtension, isAttachmentSizeValid, isPathWithinBoundary } from './validation.js';
+import { isObject } from './guards.js';
 
 export interface CopilotProviderOptions {
   model?: string;
@@ -31,7 +49,7 @@ type CopilotAttachment = NonNullable<MessageOptions['attachments']>[number];
 type CopilotSdkPermissionResult = PermissionRequestResult;
 type LegacyPermissionResult =
   | { kind: 'approved' }
-  | { kind: 'denied-by-rules'; rules?: unknown[] }
+  | { kind: 'denied-by-rules'; rules?: unknown[]; message?: string }
   | { kind: string };
 type NormalizedPermissionResult = CopilotSdkPermissionResult | LegacyPermissionResult;
 
@@ -49,7 +67,9 @@ function toCopilotPermissionResult(result: NormalizedPermissionResult): CopilotS
     case 'no-result':
       return { kind: 'no-result' };
     case 'denied-by-rules':
-      return COPILOT_DENIED;
+      return 'message' in result && typeof result.message === 'string'
+        ? { kind: 'reject', feedback: result.message } as CopilotSdkPermissionResult
+        : COPILOT_DENIED;
     default:
       return result.kind === 'reject' || result.kind === 'user-not-available'
         ? result as CopilotSdkPermissionResult
@@ -57,6 +77,42 @@ function toCopilotPermissionResult(result: NormalizedPermissionResult): CopilotS
   }
 }
 
+function toCopilotPermissionRequest(req: PermissionRequest, sessionId: string, contextId: string): AgentPermissionRequest {
+  const base = {
+    kind: req.kind,
+    ...(req.toolCallId ? { toolCallId: req.toolCallId } : {}),
+    agentType: 'copilot' as const,
+    sessionId,
+    contextId,
+  };
+  // Older CLI builds omit some of these fields, so none of them is assumed present
+  switch (req.kind) {
+    case 'shell':
+      return {
+        ...base,
+        command: req.fullCommandText,
+        ...(req.possiblePaths?.length ? { paths: req.possiblePaths } : {}),
+        ...(req.possibleUrls?.length ? { urls: req.possibleUrls.map(possible => possible.url) } : {}),
+        title: req.intention,
+        rawInput: req,
+      };
+    case 'write':
+      return { ...base, ...(req.fileName ? { paths: [req.fileName] } : {}), title: req.intention, rawInput: req };
+    case 'read':
+      return { ...base, ...(req.path ? { paths: [req.path] } : {}), title: req.intention, rawInput: req };
+    case 'url':
+      return { ...base, ...(req.url ? { urls: [req.url] } : {}), title: req.intention, rawInput: req };
+    case 'mcp':
+      return { ...base, toolName: req.toolName, title: req.toolTitle, rawInput: req.args };
+    case 'custom-tool':
+      return { ...base, toolName: req.toolName, title: req.toolDescription, rawInput: req.args };
+    case 'hook':
+      return { ...base, toolName: req.toolName, rawInput: req.toolArgs };
+    default:
+      return { ...base, rawInput: req };
+  }
+}
+
 function normalizeMimeType(mediaType: string): string | null {
   const normalized = mediaType.toLowerCase().trim().split(';')[0];
   return normalized.includes('/') ? normalized : null;
@@ -102,75 +158,88 @@ export class CopilotProvider implements AgentProvider {
     }
 
     const deniedTools = this.deniedTools;
-    const repoPath = config.repoPath;
-    const worktreePath = repoPath && config.workingDirectory !== repoPath
-      ? config.workingDirectory
-      : undefined;
+    const worktree = createWorktreeRewriter(config, 'copilot-provider');
 
     // Build hooks: merge worktree path rewriting with consumer-provided hooks
     const consumerHooks = config.hooks;
-    const hooks = worktreePath && repoPath
+    const worktreeHooks = worktree
       ? {
           onPreToolUse: ((input) => {
             const workingDirectory = isObject(input) && typeof input.workingDirectory === 'string'
               ? input.workingDirectory
               : config.workingDirectory;
-            const hookInput = { ...input, cwd: workingDirectory } as Record<string, unknown> & { toolArgs?: unknown; cwd: string };
-
             // Consumer hook first
-            if (consumerHooks?.onPreToolUse) {
-              const result = consumerHooks.onPreToolUse(hookInput);
-              if (result && typeof result === 'object') {
-                Object.assign(hookInput, result);
-              }
-            }
+            const hookInput: Record<string, unknown> = runPreToolUse(consumerHooks, { ...input, cwd: workingDirectory });
             // Then worktree path rewriting
             if (!hookInput.toolArgs || typeof hookInput.toolArgs !== 'object') return {};
-            const args = hookInput.toolArgs as Record<string, unknown>;
-            let changed = false;
-
-            function rewriteValue(val: unknown): unknown {
-              if (typeof val === 'string' && val.includes(repoPath!)) {
-                const rewritten = val.replaceAll(repoPath!, worktreePath!);
-                // Validate rewritten path stays within worktree boundary
-                if (rewritten.includes('..') && !isPathWithinBoundary(rewritten, worktreePath!)) {
-                  console.warn(`[copilot-provider] blocked path traversal: ${rewritten}`);
-                  return val; // Return original, don't rewrite
-                }
-                changed = true;
-                return rewritten;
-              }
-              if (Array.isArray(val)) return val.map(rewriteValue);
-              if (val && typeof val === 'object') {
-                const obj: Record<string, unknown> = {};
-                for (const [k, v] of Object.entries(val as Record<string, unknown>)) {
-                  obj[k] = rewriteValue(v);
-                }
-                return obj;
-              }
-              return val;
-            }
-
-            const modifiedArgs: Record<string, unknown> = {};
-            for (const [key, value] of Object.entries(args)) {
-              modifiedArgs[key] = rewriteValue(value);
-            }
-            return changed ? { modifiedArgs } : {};
+            const { value, changed } = worktree.rewrite(hookInput.toolArgs as Record<string, unknown>);
+            return changed ? { modifiedArgs: value } : {};
           }) satisfies NonNullable<SessionConfig['hooks']>['onPreToolUse'],
         }
       : undefined;
 
+    // Tool results go through the consumer's hook before the model sees them
+    const toolResultHooks = consumerHooks?.onPostToolUse
+      ? {
+          onPostToolUse: (async (input, invocation) => {
+            const override = await runPostToolUse(
+              config,
+              { toolName: input.toolName, input: input.toolArgs, agentType: 'copilot', sessionId: invocation.sessionId, contextId: config.contextId },
+              { output: input.toolResult.textResultForLlm, isError: false, rawOutput: input.toolResult },
+            );
+            if (!override) return undefined;
+            return {
+              ...(override.output !== undefined ? { modifiedResult: { ...input.toolResult, textResultForLlm: override.output } } : {}),
+              ...(override.additionalContext ? { additionalContext: override.additionalContext } : {}),
+            };
+          }) satisfies NonNullable<SessionConfig['hooks']>['onPostToolUse'],
+          onPostToolUseFailure: (async (input, invocation) => {
+            const override = await runPostToolUse(
+              config,
+              { toolName: input.toolName, input: input.toolArgs, agentType: 'copilot', sessionId: invocation.sessionId, contextId: config.contextId },
+              { output: input.error, isError: true },
+            );
+            return override?.additionalContext ? { additionalContext: override.additionalContext } : undefined;
+          }) satisfies NonNullable<SessionConfig['hooks']>['onPostToolUseFailure'],
+        }
+      : undefined;
+    const hooks = worktreeHooks || toolResultHooks ? { ...worktreeHooks, ...toolResultHooks } : undefined;
+
     // Build permission handler: merge deny-list with consumer-provided hook
-    const onPermissionRequest = (req: PermissionRequest): PermissionRequestResult => {
+    const onPermissionRequest = async (
+      req: PermissionRequest,
+      invocation: { sessionId: string },
+    ): Promise<PermissionRequestResult> => {
+      const request = toCopilotPermissionRequest(req, invocation.sessionId, config.contextId);
       if (deniedTools.size > 0 && deniedTools.has(req.kind)) {
+        await recordPermission(config, request, { kind: 'denied-by-rules' }, 'deny-list');
         return COPILOT_DENIED;
       }
-      if (consumerHooks?.onPermissionRequest) {
-        return toCopilotPermissionResult(consumerHooks.onPermissionRequest(req));
-      }
-      return COPILOT_APPROVED;
+      return toCopilotPermissionResult(await askPermission(config, request, { kind: 'approved' }));
     };
 
+    // Copilot takes MCP servers in the same shape
+    const mcpServers = normalizeMcpServers(config.mcpServers);
+
+    // Custom tools go through onPermissionRequest as 'custom-tool' requests, like the SDK's own
+    if (config.tools?.length) assertValidAgentTools(config.tools);
+    const tools = config.tools?.map((tool): CopilotTool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: toolInputSchema(tool),
+      handler: async (args, invocation) => {
+        const result = await runAgentTool(tool, args, {
+          agentType: 'copilot',
+          sessionId: invocation.sessionId,
+          contextId: config.contextId,
+          toolCallId: invocation.toolCallId,
+        });
+        return result.isError
+          ? { textResultForLlm: result.output, resultType: 'failure', error: result.output }
+          : result.output;
+      },
+    }));
+
     const sessionConfig = {
       ...(this.modelOverride ? { model: this.modelOverride } : {}),
       streaming: true,
@@ -181,6 +250,8 @@ export class CopilotProvider implements AgentProvider {
       },
       onPermissionRequest,
       ...(hooks ? { hooks } : {}),
+      ...(tools?.length ? { tools } : {}),
+      ...(Object.keys(mcpServers).length ? { mcpServers } : {}),
     };
 
     let session: CopilotSession;
@@ -196,8 +267,22 @@ export class CopilotProvider implements AgentProvider {
       session = await this.client.createSession(sessionConfig);
     }
 
-    let unsubscribe: (() => void) | null = null;
+    const toolCalls = new ToolCallTracker();
+    const subagents = new SubagentTracker();
+    const turn = new TurnRecorder(config.onEvent);
+    config = { ...config, onEvent: turn.onEvent };
     let lastSessionError: string | undefined;
+    let turnAborted = false;
+
+    // One subscription for the whole session: the TurnRecorder routes each event to the call in progress
+    let unsubscribe: (() => void) | null = session.on((event: SessionEvent) => {
+      mapSessionEvent(config.contextId, config.workingDirectory, event, config.onEvent, toolCalls, subagents);
+      if (event.type === 'session.error') {
+        lastSessionError = event.data?.message || 'Unknown session error';
+      } else if (event.type === 'abort') {
+        turnAborted = true;
+      }
+    });
 
     /** Convert AgentAttachments to Copilot SDK attachments, using native blobs for inline data. */
     function toCopilotAttachments(
@@ -250,55 +335,65 @@ export class CopilotProvider implements AgentProvider {
         return session.sessionId ?? null;
       },
 
-      async execute(prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult> {
-        lastSessionError = undefined;
-
-        unsubscribe = session.on((event: SessionEvent) => {
-          mapSessionEvent(config.contextId, event, config.onEvent);
-          if (event.type === 'session.error') {
-            lastSessionError = event.data?.message || 'Unknown session error';
-          }
-        });
-
-        // Merge config-level attachments with per-call attachments
-        const merged = [...(config.attachments || []), ...(attachments || [])];
-        const copilotAttachments = toCopilotAttachments(merged);
-        try {
-          await session.sendAndWait({
-            prompt,
-            ...(copilotAttachments.length ? { attachments: copilotAttachments } : {}),
-          }, 2_147_483_647); // no timeout — agent-manager handles its own AGENT_TIMEOUT_MS
-          if (lastSessionError) {
-            const diag = formatDiagnostic(diagnoseError('copilot', lastSessionError, config.workingDirectory));
-            return { status: 'failed', error: diag };
-          }
-          return { status: 'complete' };
-        } catch (err: unknown) {
-          const message = err instanceof Error ? err.message : String(err);
-          const diag = formatDiagnostic(diagnoseError('copilot', message, config.workingDirectory));
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'error',
-            content: `Copilot SDK error: ${diag}`, timestamp: Date.now(),
+      execute: (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult> => {
+        const { attachments, outputSchema, ...cancellation } = resolveExecuteOptions(options);
+        return runCancellable(cancellation, () => agentSession.abort(), () => turn.run(async () => {
+          lastSessionError = undefined;
+          turnAborted = false;
+
+          // Merge config-level attachments with per-call attachments
+          const merged = [...(config.attachments || []), ...(attachments || [])];
+          return runWithOutputSchema(outputSchema, prompt, async (text, isRetry) => {
+            const copilotAttachments = isRetry ? [] : toCopilotAttachments(merged);
+            try {
+              const finalEvent = await session.sendAndWait({
+                prompt: text,
+                ...(copilotAttachments.length ? { attachments: copilotAttachments } : {}),
+              }, 2_147_483_647); // no SDK timeout — timeoutMs aborts the session instead of orphaning the run
+              const finalMessage = finalEvent?.data.content;
+              if (turnAborted) {
+                return { ...cancelledResult(), finalMessage };
+              }
+              if (lastSessionError) {
+                const diag = formatDiagnostic(diagnoseError('copilot', lastSessionError, config.workingDirectory));
+                return { status: 'failed', error: diag, stopReason: 'error', finalMessage };
+              }
+              return { status: 'complete', stopReason: 'end_turn', finalMessage };
+            } catch (err: unknown) {
+              const message = err instanceof Error ? err.message : String(err);
+              const diag = formatDiagnostic(diagnoseError('copilot', message, config.workingDirectory));
+              config.onEvent({
+                id: uuid(), contextId: config.contextId, type: 'error',
+                content: `Copilot SDK error: ${diag}`, timestamp: Date.now(),
+              });
+              return { status: 'failed', error: diag, stopReason: 'error' };
+            }
           });
-          return { status: 'failed', error: diag };
-        }
+        }));
+      },
+
+      stream(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem> {
+        return turn.stream(() => agentSession.execute(prompt, options));
       },
 
-      async send(message: string, attachments?: AgentAttachment[]): Promise<void> {
+      async send(message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void> {
+        const { attachments, ...cancellation } = resolveExecuteOptions(options);
         const copilotAttachments = toCopilotAttachments(attachments);
-        try {
-          await session.sendAndWait({
-            prompt: message,
-            ...(copilotAttachments.length ? { attachments: copilotAttachments } : {}),
-          }, 2_147_483_647); // no timeout
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err);
-          const diag = formatDiagnostic(diagnoseError('copilot', msg, config.workingDirectory));
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'error',
-            content: `Copilot SDK error: ${diag}`, timestamp: Date.now(),
-          });
-        }
+        await sendCancellable(cancellation, () => agentSession.abort(), () => turn.send(async () => {
+          try {
+            await session.sendAndWait({
+              prompt: message,
+              ...(copilotAttachments.length ? { attachments: copilotAttachments } : {}),
+            }, 2_147_483_647); // no timeout
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            const diag = formatDiagnostic(diagnoseError('copilot', msg, config.workingDirectory));
+            config.onEvent({
+              id: uuid(), contextId: config.contextId, type: 'error',
+              content: `Copilot SDK error: ${diag}`, timestamp: Date.now(),
+            });
+          }
+        }));
       },
 
       async abort(): Promise<void> {
@@ -318,15 +413,43 @@ export class CopilotProvider implements AgentProvider {
   }
 }
 
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
+function readStringField(value: unknown, key: string): string | undefined {
+  return isObject(value) && typeof value[key] === 'string' ? value[key] : undefined;
+}
+
+/** `edit` replaces `old_str` with `new_str`; `create` writes `file_text` to a path that must not exist yet. */
+function editDiff(file: string, args: unknown, workingDirectory: string): string | undefined {
+  if (!isObject(args)) return undefined;
+  if (typeof args.file_text === 'string') return createUnifiedDiff(file, null, args.file_text);
+  if (typeof args.old_str === 'string' && typeof args.new_str === 'string') {
+    return createEditDiff(file, workingDirectory, [{ oldText: args.old_str, newText: args.new_str }]);
+  }
+  return undefined;
+}
+
+/** Copilot stamps events with ISO timestamps; fall back to receipt time if unparsable. */
+function eventTime(event: SessionEvent): number {
+  const parsed = Date.parse(event.timestamp);
+  return Number.isNaN(parsed) ? Date.now() : parsed;
 }
 
 function mapSessionEvent(
   contextId: string,
+  workingDirectory: string,
   event: SessionEvent,
   onEvent: AgentSessionConfig['onEvent'],
+  toolCalls: ToolCallTracker,
+  subagents: SubagentTracker,
 ): void {
+  // Events from inside a sub-agent name the tool call that delegated to it
+  const data: unknown = event.data;
+  const parentToolCallId = readStringField(data, 'parentToolCallId');
+  if (parentToolCallId) {
+    const emit = onEvent;
+    const nesting = subagents.nest(parentToolCallId, readStringField(data, 'toolCallId'));
+    onEvent = agentEvent => emit({ ...agentEvent, metadata: { ...agentEvent.metadata, ...nesting } });
+  }
+
   switch (event.type) {
     case 'assistant.turn_start':
       onEvent({ id: uuid(), contextId, type: 'thinking', content: 'Starting a new turn...', timestamp: Date.now() });
@@ -350,12 +473,30 @@ function mapSessionEvent(
 
     case 'tool.execution_start': {
       const toolName = event.data.toolName;
+      const todos = event.data.arguments?.todos;
+      if (toolName === 'update_todo' && typeof todos === 'string') {
+        // Copilot rewrites its whole todo checklist on each call, so it becomes a plan snapshot
+        const plan = planFromChecklist(todos);
+        onEvent({
+          id: uuid(), contextId, type: 'plan',
+          content: describePlan(plan), timestamp: Date.now(),
+          metadata: { plan, ...toolCalls.track(event.data.toolCallId, 'started', toolName, eventTime(event)) },
+        });
+        break;
+      }
       const kind = classifyToolKind(toolName);
+      const file = kind === 'file_read' || kind === 'file_write' ? event.data.arguments?.path : undefined;
+      const diff = kind === 'file_write' && typeof file === 'string' ? editDiff(file, event.data.arguments, workingDirectory) : undefined;
       onEvent({
         id: uuid(), contextId, type: kind,
         content: `${toolName}: ${JSON.stringify(event.data.arguments ?? '')}`,
         timestamp: Date.now(),
-        metadata: { command: toolName },
+        metadata: {
+          command: toolName,
+          ...(typeof file === 'string' ? { file } : {}),
+          ...(diff ? { diff } : {}),
+          ...toolCalls.track(event.data.toolCallId, 'started', toolName, eventTime(event)),
+        },
       });
       break;
     }
@@ -365,6 +506,12 @@ function mapSessionEvent(
         id: uuid(), contextId, type: 'command_output',
         content: event.data.result?.content ?? event.data.error?.message ?? '',
         timestamp: Date.now(),
+        metadata: toolCalls.track(
+          event.data.toolCallId,
+          event.data.success ? 'completed' : 'failed',
+          undefined,
+          eventTime(event),
+        ),
       });
       break;
 
@@ -372,11 +519,63 @@ function mapSessionEvent(
       // Filter out CLI spinner frames (Braille patterns U+2800-U+28FF)
       const partial = event.data.partialOutput?.replace(/[\u2800-\u28FF]/g, '').trim();
       if (partial) {
-        onEvent({ id: uuid(), contextId, type: 'output', content: partial, timestamp: Date.now() });
+        onEvent({
+          id: uuid(), contextId, type: 'output', content: partial, timestamp: Date.now(),
+          metadata: toolCalls.track(event.data.toolCallId, 'running', undefined, eventTime(event)),
+        });
       }
       break;
     }
 
+    case 'assistant.usage': {
+      // Copilot's `cost` is a billing multiplier rather than dollars, so it is not mapped to costUsd
+      const usage: AgentUsage = {
+        inputTokens: event.data.inputTokens ?? 0,
+        outputTokens: event.data.outputTokens ?? 0,
+        ...(event.data.cacheReadTokens !== undefined ? { cachedInputTokens: event.data.cacheReadTokens } : {}),
+        ...(event.data.cacheWriteTokens !== undefined ? { cacheWriteTokens: event.data.cacheWriteTokens } : {}),
+        ...(event.data.reasoningTokens !== undefined ? { reasoningTokens: event.data.reasoningTokens } : {}),
+      };
+      onEvent({
+        id: uuid(), contextId, type: 'usage', content: describeUsage(usage), timestamp: Date.now(),
+        metadata: { usage },
+      });
+      break;
+    }
+
+    case 'subagent.started':
+      onEvent({
+        id: uuid(), contextId, type: 'subagent_start',
+        content: event.data.agentDescription || `Delegating to ${event.data.agentDisplayName}`,
+        timestamp: Date.now(),
+        metadata: {
+          toolCallId: event.data.toolCallId,
+          toolStatus: 'started',
+          subagentName: event.data.agentName,
+          ...subagents.start(event.data.toolCallId),
+        },
+      });
+      break;
+
+    case 'subagent.completed':
+    case 'subagent.failed':
+      onEvent({
+        id: uuid(), contextId, type: 'subagent_end',
+        content: event.type === 'subagent.failed'
+          ? event.data.error
+          : `${event.data.agentDisplayName} finished`,
+        timestamp: Date.now(),
+        metadata: {
+          toolCallId: event.data.toolCallId,
+          toolStatus: event.type === 'subagent.failed' ? 'failed' : 'completed',
+          subagentName: event.data.agentName,
+          ...(event.type === 'subagent.failed' ? { error: event.data.error } : {}),
+          ...(event.data.durationMs !== undefined ? { duration: event.data.durationMs } : {}),
+          ...subagents.end(event.data.toolCallId),
+        },
+      });
+      break;
+
     case 'session.idle':
       onEvent({ id: uuid(), contextId, type: 'complete', content: 'Session idle.', timestamp: Date.now() });
       break;
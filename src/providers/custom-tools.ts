@@ -0,0 +1,226 @@
+import { randomBytes } from 'node:crypto';
+import { createServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { McpServer as AcpMcpServer } from '@agentclientprotocol/sdk';
+import type { AgentTool, AgentToolContext, AgentToolResult } from '../types/providers.js';
+import { isObject } from './guards.js';
+
+/** Name of the MCP server that carries a session's custom tools */
+export const AGENT_TOOLS_SERVER_NAME = 'agent-tools';
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MCP_PROTOCOL_VERSION = '2025-06-18';
+const MAX_REQUEST_BYTES = 4 * 1024 * 1024;
+const EMPTY_INPUT_SCHEMA = { type: 'object', properties: {} };
+
+type JsonRpcMessage = {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+};
+
+type JsonRpcResponse = {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+/** A local MCP endpoint serving custom tools, for agents that can only reach tools over MCP. */
+export interface McpToolServer {
+  url: string;
+  /** Bearer token every request must carry */
+  token: string;
+  close(): Promise<void>;
+}
+
+/** Throw if two tools share a name or a name isn't one every SDK accepts. */
+export function assertValidAgentTools(tools: AgentTool[]): void {
+  const seen = new Set<string>();
+  for (const tool of tools) {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`Invalid tool name "${tool.name}": use 1-64 letters, digits, "_" or "-"`);
+    }
+    if (seen.has(tool.name)) throw new Error(`Duplicate tool name "${tool.name}"`);
+    seen.add(tool.name);
+  }
+}
+
+export function toolInputSchema(tool: AgentTool): Record<string, unknown> {
+  return tool.inputSchema ?? EMPTY_INPUT_SCHEMA;
+}
+
+/** Run a tool's handler, turning a thrown error into a failed result. */
+export async function runAgentTool(
+  tool: AgentTool,
+  args: unknown,
+  context: AgentToolContext,
+): Promise<AgentToolResult> {
+  try {
+    const output = await tool.handler(isObject(args) ? args : {}, context);
+    return typeof output === 'string'
+      ? { output, isError: false }
+      : { output: output.output, isError: output.isError ?? false };
+  } catch (err: unknown) {
+    return { output: err instanceof Error ? err.message : String(err), isError: true };
+  }
+}
+
+/**
+ * Answer one MCP JSON-RPC message (initialize, tools/list, tools/call, ping)
+ * for a set of custom tools. Notifications get no response.
+ */
+export async function handleMcpToolMessage(
+  tools: AgentTool[],
+  message: JsonRpcMessage,
+  context: () => AgentToolContext,
+): Promise<JsonRpcResponse | undefined> {
+  if (message.id === undefined || message.id === null) return undefined;
+  const id = message.id;
+  switch (message.method) {
+    case 'initialize': {
+      const requested = message.params?.protocolVersion;
+      return {
+        jsonrpc: '2.0', id,
+        result: {
+          protocolVersion: typeof requested === 'string' ? requested : MCP_PROTOCOL_VERSION,
+          capabilities: { tools: {} },
+          serverInfo: { name: AGENT_TOOLS_SERVER_NAME, version: '1.0.0' },
+        },
+      };
+    }
+    case 'ping':
+      return { jsonrpc: '2.0', id, result: {} };
+    case 'tools/list':
+      return {
+        jsonrpc: '2.0', id,
+        result: {
+          tools: tools.map(tool => ({ name: tool.name, description: tool.description, inputSchema: toolInputSchema(tool) })),
+        },
+      };
+    case 'tools/call': {
+      const name = message.params?.name;
+      const tool = tools.find(item => item.name === name);
+      if (!tool) return { jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown tool: ${String(name)}` } };
+      const { output, isError } = await runAgentTool(tool, message.params?.arguments, context());
+      return { jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: output }], isError } };
+    }
+    default:
+      return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${String(message.method)}` } };
+  }
+}
+
+/**
+ * Serve custom tools over MCP streamable HTTP on 127.0.0.1. Responses are
+ * plain JSON (no event stream), and requests without the bearer token are
+ * rejected.
+ */
+export async function startMcpToolServer(
+  tools: AgentTool[],
+  context: () => AgentToolContext,
+): Promise<McpToolServer> {
+  const token = randomBytes(32).toString('hex');
+  const server = createServer((req, res) => {
+    if (req.headers.authorization !== `Bearer ${token}`) {
+      res.writeHead(401).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_REQUEST_BYTES) {
+        res.writeHead(413).end();
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      void (async () => {
+        let body: unknown;
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        } catch {
+          sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+          return;
+        }
+        const messages = (Array.isArray(body) ? body : [body]).filter(isObject) as JsonRpcMessage[];
+        const responses = (await Promise.all(messages.map(message => handleMcpToolMessage(tools, message, context))))
+          .filter((response): response is JsonRpcResponse => response !== undefined);
+        if (!responses.length) {
+          res.writeHead(202).end();
+          return;
+        }
+        sendJson(res, 200, Array.isArray(body) ? responses : responses[0]);
+      })();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    token,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// Relays newline-delimited JSON-RPC on stdio to the HTTP server, for agents without HTTP MCP support
+const STDIO_BRIDGE_SCRIPT = `
+const { AGENT_TOOLS_URL: url, AGENT_TOOLS_TOKEN: token } = process.env;
+require('readline').createInterface({ input: process.stdin }).on('line', async line => {
+  if (!line.trim()) return;
+  let id = null;
+  try { id = JSON.parse(line).id ?? null; } catch {}
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json', authorization: 'Bearer ' + token },
+      body: line,
+    });
+    const text = await res.text();
+    if (text.trim()) process.stdout.write(text.trim() + '\\n');
+  } catch (err) {
+    if (id !== null) process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32603, message: String(err) } }) + '\\n');
+  }
+});
+`;
+
+/** ACP session/new entry for a tool server: HTTP when the agent supports it, otherwise a stdio bridge. */
+export function toAcpMcpServer(server: McpToolServer, http: boolean): AcpMcpServer {
+  if (http) {
+    return {
+      type: 'http',
+      name: AGENT_TOOLS_SERVER_NAME,
+      url: server.url,
+      headers: [{ name: 'Authorization', value: `Bearer ${server.token}` }],
+    };
+  }
+  return {
+    name: AGENT_TOOLS_SERVER_NAME,
+    command: process.execPath,
+    args: ['-e', STDIO_BRIDGE_SCRIPT],
+    env: [
+      { name: 'AGENT_TOOLS_URL', value: server.url },
+      { name: 'AGENT_TOOLS_TOKEN', value: server.token },
+    ],
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
@@ -0,0 +1,189 @@
+import { readFileSync, statSync } from 'fs';
+import { resolve } from 'path';
+
+/** Larger files are not read to diff an edit */
+const MAX_DIFF_FILE_BYTES = 1_000_000;
+
+/** Above this many LCS cells, a changed region is shown as one removal + one addition */
+const MAX_DIFF_CELLS = 1_000_000;
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Render a unified diff (`--- a/…`, `+++ b/…`, `@@` hunks) between two
+ * versions of a file. `before` is null/undefined for a newly created file.
+ * Returns undefined when nothing changed.
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null | undefined,
+  after: string,
+  context = 3,
+): string | undefined {
+  const oldLines = splitLines(before ?? '');
+  const newLines = splitLines(after);
+  const lines = diffLines(oldLines, newLines);
+  if (!lines.some(line => line.op !== ' ')) return undefined;
+
+  const header = [
+    before == null ? '--- /dev/null' : `--- ${fileLabel('a', path)}`,
+    `+++ ${fileLabel('b', path)}`,
+  ];
+  return [...header, ...renderHunks(lines, context)].join('\n');
+}
+
+/** One search/replace edit; `replaceAll` replaces every occurrence instead of the first */
+export interface TextEdit {
+  oldText: string;
+  newText: string;
+  replaceAll?: boolean;
+}
+
+/**
+ * Diff for a search/replace edit (Claude Edit/MultiEdit, Copilot `edit`)
+ * reported before the tool runs. The arguments only carry the replaced
+ * snippets, so the file is read and the edits applied to it to get hunk line
+ * numbers that match the file. Returns undefined when the file can't be read,
+ * is too large, or an edit's old text isn't in it.
+ */
+export function createEditDiff(path: string, workingDirectory: string, edits: TextEdit[]): string | undefined {
+  const before = readFileForDiff(resolve(workingDirectory, path));
+  if (before === undefined) return undefined;
+
+  let after = before;
+  for (const edit of edits) {
+    if (edit.oldText === '') return undefined;
+    const index = after.indexOf(edit.oldText);
+    if (index === -1) return undefined;
+    after = edit.replaceAll
+      ? after.split(edit.oldText).join(edit.newText)
+      : after.slice(0, index) + edit.newText + after.slice(index + edit.oldText.length);
+  }
+  return createUnifiedDiff(path, before, after);
+}
+
+function readFileForDiff(path: string): string | undefined {
+  try {
+    return statSync(path).size <= MAX_DIFF_FILE_BYTES ? readFileSync(path, 'utf-8') : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** git-style `a/`/`b/` prefixes for relative paths; absolute paths are shown as-is */
+function fileLabel(side: 'a' | 'b', path: string): string {
+  return path.startsWith('/') ? path : `${side}/${path}`;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Trim the common prefix/suffix so the LCS only covers the changed region
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix = oldLines.slice(0, start).map(text => ({ op: ' ' as const, text }));
+  const suffix = oldLines.slice(oldEnd).map(text => ({ op: ' ' as const, text }));
+  const removed = oldLines.slice(start, oldEnd);
+  const added = newLines.slice(start, newEnd);
+
+  const middle = removed.length * added.length > MAX_DIFF_CELLS
+    ? [...removed.map(text => ({ op: '-' as const, text })), ...added.map(text => ({ op: '+' as const, text }))]
+    : lcsDiff(removed, added);
+  return [...prefix, ...middle, ...suffix];
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const width = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ op: '-', text: a[i++] });
+  while (j < b.length) lines.push({ op: '+', text: b[j++] });
+  return lines;
+}
+
+function renderHunks(lines: DiffLine[], context: number): string[] {
+  const output: string[] = [];
+  let index = 0;
+  // 1-based line numbers of lines[index] in the old and new file
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < lines.length) {
+    let firstChange = index;
+    while (firstChange < lines.length && lines[firstChange].op === ' ') firstChange++;
+    if (firstChange === lines.length) break;
+
+    // Extend the hunk until a run of unchanged lines is long enough to split on
+    let end = firstChange;
+    let unchanged = 0;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i].op === ' ') {
+        unchanged++;
+        if (unchanged > context * 2) break;
+      } else {
+        unchanged = 0;
+        end = i;
+      }
+    }
+
+    const start = Math.max(index, firstChange - context);
+    const stop = Math.min(lines.length, end + context + 1);
+    for (let i = index; i < start; i++) {
+      oldLine++;
+      newLine++;
+    }
+
+    const body = lines.slice(start, stop);
+    const oldCount = body.filter(line => line.op !== '+').length;
+    const newCount = body.filter(line => line.op !== '-').length;
+    output.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`);
+    for (const line of body) output.push(`${line.op}${line.text}`);
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = stop;
+  }
+  return output;
+}
+
+function hunkRange(line: number, count: number): string {
+  // An empty side points at the line before the insertion, per diff(1)
+  if (count === 0) return `${line - 1},0`;
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
@@ -0,0 +1,4 @@
+/** A non-null, non-array object, such as parsed JSON or an SDK's loosely typed tool input */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -50,7 +50,6 @@ export class HermesProvider extends AcpCliProviderBase {
       notInitializedMessage: 'Hermes ACP client not initialized — call start() first',
       missingSessionMessage: 'Hermes ACP did not return a sessionId.',
       destroyedMessage: 'Hermes session has been destroyed',
-      abortedMessage: 'Hermes execution aborted',
       completedMessage: 'Hermes completed the task.',
     });
   }
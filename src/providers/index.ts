@@ -8,6 +8,14 @@ export { OpenClawGatewayProvider } from './openclaw-gateway.js';
 export { detectAgents } from './detection.js';
 export { ProgressAggregator } from './progress.js';
 export { diagnoseError, formatDiagnostic } from './diagnostics.js';
+export { evaluatePermissionPolicy, loadPermissionPolicy, parsePermissionPolicy } from './policy.js';
+export {
+  AUDIT_GENESIS_HASH,
+  createJsonlAuditSink,
+  createPermissionAuditLog,
+  readPermissionAuditLog,
+  verifyPermissionAuditLog,
+} from './audit.js';
 
 export type { CopilotProviderOptions } from './copilot.js';
 export type { ClaudeProviderOptions } from './claude.js';
@@ -16,8 +24,11 @@ export type { OpenCodeProviderOptions } from './opencode.js';
 export type { HermesProviderOptions } from './hermes.js';
 export type { OpenClawProviderOptions, OpenClawAcpProvenanceMode } from './openclaw.js';
 export type { OpenClawDeviceIdentity, OpenClawGatewayProviderOptions } from './openclaw-gateway.js';
+export type { PermissionAuditLogOptions } from './audit.js';
 
 export { buildContentBlocks } from './claude.js';
+export { buildClaudeSessionOptions } from './claude.js';
+export { buildCodexThreadOptions } from './codex.js';
 export { createHermesEnvironment, buildAcpPromptBlocks } from './hermes.js';
 export { buildOpenClawAcpArgs, createOpenClawEnvironment, buildOpenClawAcpPromptBlocks } from './openclaw.js';
 export { buildOpenClawDeviceAuthPayloadV3, extractOpenClawText, mapOpenClawChatEvent } from './openclaw-gateway.js';
@@ -0,0 +1,96 @@
+import type { McpServer as AcpMcpServer, McpCapabilities } from '@agentclientprotocol/sdk';
+import type { McpServerConfig } from '../types/providers.js';
+import { AGENT_TOOLS_SERVER_NAME } from './custom-tools.js';
+import { createSafeChildEnvironment } from './env.js';
+import { isObject } from './guards.js';
+
+const SERVER_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+type RemoteMcpServerConfig = Extract<McpServerConfig, { url: string }>;
+type StdioMcpServerConfig = Exclude<McpServerConfig, RemoteMcpServerConfig>;
+
+export function isRemoteMcpServer(server: McpServerConfig): server is RemoteMcpServerConfig {
+  return server.type === 'http' || server.type === 'sse';
+}
+
+/**
+ * Validate a session's MCP servers and give each stdio server a scrubbed
+ * environment (the safe baseline plus its own `env`). Throws on the first
+ * invalid server.
+ */
+export function normalizeMcpServers(
+  servers: Record<string, McpServerConfig> | undefined,
+): Record<string, McpServerConfig> {
+  const normalized: Record<string, McpServerConfig> = {};
+  for (const [name, server] of Object.entries(servers ?? {})) {
+    const problem = describeInvalidServer(name, server);
+    if (problem) throw new Error(`Invalid MCP server "${name}": ${problem}`);
+    if (isRemoteMcpServer(server)) {
+      normalized[name] = server;
+      continue;
+    }
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(createSafeChildEnvironment({ prefixes: [], overrides: server.env }))) {
+      if (value !== undefined) env[key] = value;
+    }
+    normalized[name] = { ...server, env };
+  }
+  return normalized;
+}
+
+/**
+ * ACP session/new entries for normalized servers. Remote servers the agent
+ * hasn't advertised support for are left out with a warning.
+ */
+export function toAcpMcpServers(
+  servers: Record<string, McpServerConfig>,
+  capabilities: McpCapabilities | undefined,
+  logPrefix: string,
+): AcpMcpServer[] {
+  const entries: AcpMcpServer[] = [];
+  for (const [name, server] of Object.entries(servers)) {
+    if (isRemoteMcpServer(server)) {
+      if (!capabilities?.[server.type]) {
+        console.warn(`[${logPrefix}] skipping MCP server ${name}: the agent does not support ${server.type} MCP servers`);
+        continue;
+      }
+      entries.push({ type: server.type, name, url: server.url, headers: toNameValueList(server.headers) });
+    } else {
+      entries.push({ name, command: server.command, args: server.args ?? [], env: toNameValueList(server.env) });
+    }
+  }
+  return entries;
+}
+
+function describeInvalidServer(name: string, server: McpServerConfig): string | undefined {
+  if (!SERVER_NAME_PATTERN.test(name)) return 'names are 1-64 letters, digits, "_" or "-"';
+  if (name === AGENT_TOOLS_SERVER_NAME) return 'the name is reserved for custom tools';
+  if (!server || typeof server !== 'object') return 'expected an object';
+  if (isRemoteMcpServer(server)) {
+    let url: URL;
+    try {
+      url = new URL(server.url);
+    } catch {
+      return `url ${JSON.stringify(server.url)} is not a valid URL`;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return `url must be http or https, not ${url.protocol}`;
+    if (server.headers !== undefined && !isStringRecord(server.headers)) return 'headers must map names to strings';
+    return undefined;
+  }
+  const stdio = server as StdioMcpServerConfig;
+  if (stdio.type !== undefined && stdio.type !== 'stdio') return `unknown type ${JSON.stringify(stdio.type)}`;
+  if (typeof stdio.command !== 'string' || !stdio.command.trim()) return 'command is required';
+  if (stdio.args !== undefined && !(Array.isArray(stdio.args) && stdio.args.every(arg => typeof arg === 'string'))) {
+    return 'args must be an array of strings';
+  }
+  if (stdio.env !== undefined && !isStringRecord(stdio.env)) return 'env must map names to strings';
+  return undefined;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return isObject(value) && Object.values(value).every(item => typeof item === 'string');
+}
+
+function toNameValueList(values: Record<string, string> | undefined): Array<{ name: string; value: string }> {
+  return Object.entries(values ?? {}).map(([name, value]) => ({ name, value }));
+}
@@ -6,14 +6,20 @@ import type { AgentType } from '../types/agents.js';
 import type {
   AgentProvider,
   AgentSession,
+  AgentExecuteOptions,
+  AgentStreamItem,
   AgentSessionConfig,
   AgentResult,
   AgentAttachment,
 } from '../types/providers.js';
 import type { AgentEventType } from '../types/events.js';
+import { cancelledResult, resolveExecuteOptions, runCancellable, sendCancellable } from './cancellation.js';
 import { diagnoseError, formatDiagnostic } from './diagnostics.js';
 import { importOptionalPeer } from './peer-deps.js';
+import { runWithOutputSchema } from './structured-output.js';
+import { TurnRecorder } from './turn.js';
 import { getSafeExtension, isAttachmentSizeValid, isPathWithinBoundary } from './validation.js';
+import { isObject } from './guards.js';
 
 const CLIENT_VERSION = '0.6.0';
 const PROTOCOL_VERSION = 4;
@@ -109,6 +115,8 @@ type RegisteredSession = {
   sessionKey: string;
   agentId?: string;
   destroyed: boolean;
+  /** Set by abort() so a run whose chat.send is still in flight is aborted once acked */
+  abortRequested: boolean;
   activeRunId?: string;
   active?: ActivePrompt;
 };
@@ -228,12 +236,24 @@ export class OpenClawGatewayProvider implements AgentProvider {
 
   async createSession(config: AgentSessionConfig): Promise<AgentSession> {
     this.requireConnection();
+    if (config.tools?.length) {
+      throw new Error('OpenClaw Gateway does not support custom tools; use OpenClawProvider (ACP) for them.');
+    }
+    if (Object.keys(config.mcpServers ?? {}).length) {
+      throw new Error('OpenClaw Gateway does not support MCP servers; use OpenClawProvider (ACP) for them.');
+    }
+    if (config.mode === 'plan') {
+      throw new Error('OpenClaw Gateway does not support plan mode; use OpenClawProvider (ACP) for it.');
+    }
+    const turn = new TurnRecorder(config.onEvent);
+    config = { ...config, onEvent: turn.onEvent };
     const sessionKey = config.resumeSessionId || this.defaultSessionKey;
     const registered: RegisteredSession = {
       config,
       sessionKey,
       agentId: this.defaultAgentId,
       destroyed: false,
+      abortRequested: false,
     };
     this.sessions.add(registered);
 
@@ -258,9 +278,11 @@ export class OpenClawGatewayProvider implements AgentProvider {
       includeInitialContext: boolean,
     ): Promise<AgentResult> => {
       if (registered.destroyed) {
-        return { status: 'failed', error: 'OpenClaw session has been destroyed' };
+        return { status: 'failed', error: 'OpenClaw session has been destroyed', stopReason: 'error' };
       }
 
+      registered.abortRequested = false;
+      registered.activeRunId = undefined;
       const message = includeInitialContext && config.systemPrompt
         ? `${config.systemPrompt}\n\n${prompt}`
         : prompt;
@@ -270,7 +292,7 @@ export class OpenClawGatewayProvider implements AgentProvider {
       } catch (err: unknown) {
         const messageText = errorMessage(err);
         emitEvent(config, 'error', `OpenClaw attachment error: ${messageText}`);
-        return { status: 'failed', error: messageText };
+        return { status: 'failed', error: messageText, stopReason: 'error' };
       }
       const idempotencyKey = `agent-sdk-${uuid()}`;
       let ack: unknown;
@@ -287,11 +309,17 @@ export class OpenClawGatewayProvider implements AgentProvider {
       } catch (err: unknown) {
         const diag = formatDiagnostic(diagnoseError('openclaw', errorMessage(err), config.workingDirectory));
         emitEvent(config, 'error', `OpenClaw Gateway error: ${diag}`);
-        return { status: 'failed', error: diag };
+        return { status: 'failed', error: diag, stopReason: 'error' };
       }
 
       const runId = readStringProperty(ack, 'runId') ?? idempotencyKey;
       registered.activeRunId = runId;
+      if (registered.abortRequested) {
+        await this.request('chat.abort', { sessionKey, runId }).catch((err: unknown) => {
+          emitEvent(config, 'error', `OpenClaw abort failed: ${errorMessage(err)}`);
+        });
+        return cancelledResult();
+      }
 
       return await new Promise<AgentResult>(resolve => {
         registered.active = {
@@ -306,30 +334,40 @@ export class OpenClawGatewayProvider implements AgentProvider {
       });
     };
 
-    return {
+    const agentSession: AgentSession = {
       get sessionId() {
         return sessionKey;
       },
 
-      execute: async (prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult> => withPromptLock(async () => {
-        const merged = initialPromptSent
-          ? attachments
-          : [...(config.attachments ?? []), ...(attachments ?? [])];
-        const result = await runPrompt(prompt, merged, !initialPromptSent);
-        initialPromptSent = true;
-        return result;
-      }),
-
-      send: async (message: string, attachments?: AgentAttachment[]): Promise<void> => {
-        await withPromptLock(async () => {
+      execute: async (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult> => {
+        const { attachments, outputSchema, ...cancellation } = resolveExecuteOptions(options);
+        return withPromptLock(() => runCancellable(cancellation, () => agentSession.abort(), () => turn.run(() => (
+          runWithOutputSchema(outputSchema, prompt, async (text, isRetry) => {
+            const merged = initialPromptSent
+              ? (isRetry ? undefined : attachments)
+              : [...(config.attachments ?? []), ...(attachments ?? [])];
+            const result = await runPrompt(text, merged, !initialPromptSent);
+            initialPromptSent = true;
+            return result;
+          })
+        ))));
+      },
+
+      stream: (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem> =>
+        turn.stream(() => agentSession.execute(prompt, options)),
+
+      send: async (message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void> => {
+        const { attachments, ...cancellation } = resolveExecuteOptions(options);
+        await withPromptLock(() => sendCancellable(cancellation, () => agentSession.abort(), () => turn.send(async () => {
           const result = await runPrompt(message, attachments, false);
           if (result.status === 'failed' && result.error) {
             emitEvent(config, 'error', result.error);
           }
-        });
+        })));
       },
 
       abort: async (): Promise<void> => {
+        registered.abortRequested = true;
         const runId = registered.activeRunId;
         if (registered.active) registered.active.aborted = true;
         if (runId) {
@@ -337,15 +375,17 @@ export class OpenClawGatewayProvider implements AgentProvider {
             emitEvent(config, 'error', `OpenClaw abort failed: ${errorMessage(err)}`);
           });
         }
-        this.resolveActivePrompt(registered, { status: 'failed', error: 'OpenClaw execution aborted' });
+        this.resolveActivePrompt(registered, cancelledResult());
       },
 
       destroy: async (): Promise<void> => {
         registered.destroyed = true;
         this.sessions.delete(registered);
-        this.resolveActivePrompt(registered, { status: 'failed', error: 'OpenClaw session destroyed' });
+        this.resolveActivePrompt(registered, { status: 'failed', error: 'OpenClaw session destroyed', stopReason: 'error' });
       },
     };
+
+    return agentSession;
   }
 
   private requireConnection(): void {
@@ -409,12 +449,14 @@ export class OpenClawGatewayProvider implements AgentProvider {
           active.outputText = mapped.content;
         }
         emitEvent(session.config, 'complete', completeText, { agentType: 'openclaw' });
-      } else {
+      } else if (mapped.status === 'failed') {
         emitEvent(session.config, 'error', mapped.content || 'OpenClaw execution failed', { agentType: 'openclaw' });
       }
       const result: AgentResult = mapped.status === 'complete'
-        ? { status: 'complete' }
-        : { status: 'failed', error: mapped.content || 'OpenClaw execution failed' };
+        ? { status: 'complete', stopReason: 'end_turn', finalMessage: (mapped.content || active.outputText) || undefined }
+        : mapped.status === 'cancelled'
+          ? { ...cancelledResult(), finalMessage: active.outputText || undefined }
+          : { status: 'failed', error: mapped.content || 'OpenClaw execution failed', stopReason: 'error' };
       this.resolveActivePrompt(session, result);
       return;
     }
@@ -547,11 +589,11 @@ export class OpenClawGatewayProvider implements AgentProvider {
     active.settled = true;
     session.active = undefined;
     session.activeRunId = undefined;
-    active.resolve(active.aborted ? { status: 'failed', error: 'OpenClaw execution aborted' } : result);
+    active.resolve(active.aborted ? cancelledResult() : result);
   }
 
   private failActivePrompt(session: RegisteredSession, message: string): void {
-    this.resolveActivePrompt(session, { status: 'failed', error: message });
+    this.resolveActivePrompt(session, { status: 'failed', error: message, stopReason: 'error' });
   }
 
   private failConnection(error: Error): void {
@@ -633,7 +675,8 @@ export function mapOpenClawChatEvent(payload: Record<string, unknown>): ChatEven
       return { type: 'complete', content: finalText, terminal: true, status: 'complete' };
     }
     case 'aborted':
-      return { type: 'error', content: 'OpenClaw execution aborted', terminal: true, status: 'failed' };
+      // A cancelled run is not an error, so it maps to a terminal state without an event of its own
+      return { type: 'complete', content: '', terminal: true, status: 'cancelled' };
     case 'error':
       return { type: 'error', content: readStringProperty(payload, 'errorMessage') ?? extractOpenClawText(payload) ?? 'OpenClaw execution failed', terminal: true, status: 'failed' };
     default:
@@ -723,10 +766,6 @@ function isGatewayResponse(value: unknown): value is GatewayResponse {
   return isObject(value) && value.type === 'res' && typeof value.id === 'string' && typeof value.ok === 'boolean';
 }
 
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null;
-}
-
 function readStringProperty(value: unknown, key: string): string | undefined {
   return isObject(value) && typeof value[key] === 'string' ? value[key] : undefined;
 }
@@ -82,7 +82,6 @@ export class OpenClawProvider extends AcpCliProviderBase {
       notInitializedMessage: 'OpenClaw ACP client not initialized — call start() first',
       missingSessionMessage: 'OpenClaw ACP did not return a sessionId.',
       destroyedMessage: 'OpenClaw session has been destroyed',
-      abortedMessage: 'OpenClaw execution aborted',
       completedMessage: 'OpenClaw completed the task.',
     });
   }
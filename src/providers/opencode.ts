@@ -1,18 +1,39 @@
 import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
 import { v4 as uuid } from 'uuid';
-import type { OpencodeClient } from '@opencode-ai/sdk';
-import type { Event as OpenCodeEvent, Part as OpenCodePart } from '@opencode-ai/sdk';
+import type { McpLocalConfig, McpRemoteConfig, OpencodeClient } from '@opencode-ai/sdk';
+import type { Event as OpenCodeEvent, Part as OpenCodePart, Permission, StepFinishPart } from '@opencode-ai/sdk';
 import type { AgentType } from '../types/agents.js';
+import type { AgentEventMetadata, AgentUsage, ToolCallStatus } from '../types/events.js';
 import type {
   AgentProvider,
   AgentSession,
+  AgentExecuteOptions,
+  AgentStreamItem,
   AgentSessionConfig,
   AgentResult,
   AgentAttachment,
+  AgentPermissionRequest,
+  McpServerConfig,
 } from '../types/providers.js';
 import { classifyToolKind } from './tool-classification.js';
+import { cancelledResult, resolveExecuteOptions, runCancellable, sendCancellable } from './cancellation.js';
+import { AGENT_TOOLS_SERVER_NAME, assertValidAgentTools, startMcpToolServer } from './custom-tools.js';
+import type { McpToolServer } from './custom-tools.js';
 import { diagnoseError, formatDiagnostic } from './diagnostics.js';
+import { isRemoteMcpServer, normalizeMcpServers } from './mcp-servers.js';
 import { importOptionalPeer } from './peer-deps.js';
+import {
+  askPermission,
+  hasPermissionCheck,
+  permissionKindForTool,
+  readInputCommand,
+  readInputPaths,
+  readInputUrls,
+} from './permissions.js';
+import { runWithOutputSchema } from './structured-output.js';
+import { runPostToolUse } from './tool-hooks.js';
+import { TurnRecorder, describeUsage } from './turn.js';
+import { isWorktreeSession } from './worktree.js';
 
 export interface OpenCodeProviderOptions {
   /** Model in "providerID/modelID" format (e.g., "anthropic/claude-sonnet-4-20250514") */
@@ -35,6 +56,25 @@ function extractErrorMessage(error: { name: string; data?: unknown }): string {
   return error.name;
 }
 
+/** Register an MCP server with the OpenCode server, which reports failures in the response rather than throwing. */
+async function addOpenCodeMcpServer(
+  client: OpencodeClient,
+  name: string,
+  config: McpLocalConfig | McpRemoteConfig,
+): Promise<void> {
+  const added = await client.mcp.add({ body: { name, config } })
+    .catch((err: unknown) => ({ data: undefined, error: err }));
+  if (!added.data) {
+    const reason = added.error instanceof Error ? added.error.message : JSON.stringify(added.error);
+    throw new Error(`OpenCode could not add MCP server ${name}: ${reason}`);
+  }
+}
+
+function toOpenCodeMcpConfig(server: McpServerConfig): McpLocalConfig | McpRemoteConfig {
+  if (isRemoteMcpServer(server)) return { type: 'remote', url: server.url, headers: server.headers };
+  return { type: 'local', command: [server.command, ...(server.args ?? [])], environment: server.env };
+}
+
 export class OpenCodeProvider implements AgentProvider {
   readonly name: AgentType = 'opencode';
   readonly displayName = 'OpenCode';
@@ -43,6 +83,8 @@ export class OpenCodeProvider implements AgentProvider {
   private client: OpencodeClient | null = null;
   private server: { url: string; close(): void | Promise<void> } | null = null;
   private sessions = new Set<AgentSession>();
+  /** Open sessions using each MCP server added to the OpenCode server */
+  private mcpServerUsers = new Map<string, number>();
   private providerID?: string;
   private modelID?: string;
   private baseUrl?: string;
@@ -96,9 +138,19 @@ export class OpenCodeProvider implements AgentProvider {
     }
 
     const client = this.client;
+    const turn = new TurnRecorder(config.onEvent);
+    config = { ...config, onEvent: turn.onEvent };
     const model = this.providerID && this.modelID
       ? { providerID: this.providerID, modelID: this.modelID }
       : undefined;
+    if (config.tools?.length) assertValidAgentTools(config.tools);
+    const mcpServers = normalizeMcpServers(config.mcpServers);
+    // OpenCode's built-in plan agent has edits and shell disabled; build is its default agent
+    const agent = config.mode ? (config.mode === 'plan' ? 'plan' : 'build') : undefined;
+    // OpenCode's tool inputs can't be rewritten, and its edit tools don't ask permission by default
+    if (isWorktreeSession(config)) {
+      throw new Error(`OpenCode cannot keep a worktree session out of ${config.repoPath}; run it with workingDirectory set to repoPath or use Copilot or Claude Code.`);
+    }
 
     // Create or resume session
     let sessionId: string;
@@ -122,6 +174,47 @@ export class OpenCodeProvider implements AgentProvider {
       sessionId = created.data.id;
     }
 
+    // OpenCode's MCP servers belong to the whole server rather than a session: each
+    // is added when the first session needs it and disconnected when the last goes
+    const mcpServerUsers = this.mcpServerUsers;
+    const usedMcpServers: string[] = [];
+    const useMcpServer = async (name: string, mcpConfig: McpLocalConfig | McpRemoteConfig): Promise<void> => {
+      if (!mcpServerUsers.has(name)) await addOpenCodeMcpServer(client, name, mcpConfig);
+      mcpServerUsers.set(name, (mcpServerUsers.get(name) ?? 0) + 1);
+      usedMcpServers.push(name);
+    };
+    const releaseMcpServers = async (): Promise<void> => {
+      for (const name of usedMcpServers.splice(0)) {
+        const users = (mcpServerUsers.get(name) ?? 1) - 1;
+        if (users > 0) {
+          mcpServerUsers.set(name, users);
+          continue;
+        }
+        mcpServerUsers.delete(name);
+        try { await client.mcp.disconnect({ path: { name } }); } catch { /* ignore */ }
+      }
+    };
+
+    // OpenCode has no per-session tools, so custom tools are served as a remote MCP
+    // server under a name unique to this session
+    let toolServer: McpToolServer | undefined;
+    try {
+      for (const [name, server] of Object.entries(mcpServers)) {
+        await useMcpServer(name, toOpenCodeMcpConfig(server));
+      }
+      if (config.tools?.length) {
+        const { tools, contextId } = config;
+        toolServer = await startMcpToolServer(tools, () => ({ agentType: 'opencode', sessionId, contextId }));
+        await useMcpServer(`${AGENT_TOOLS_SERVER_NAME}-${uuid().slice(0, 8)}`, {
+          type: 'remote', url: toolServer.url, headers: { Authorization: `Bearer ${toolServer.token}` }, oauth: false,
+        });
+      }
+    } catch (err: unknown) {
+      await releaseMcpServers();
+      await toolServer?.close();
+      throw err;
+    }
+
     // Subscribe to SSE for real-time events
     let sseStream: AsyncGenerator<OpenCodeEvent> | null = null;
     let sseLoopDone: Promise<void> | null = null;
@@ -129,6 +222,47 @@ export class OpenCodeProvider implements AgentProvider {
     let hasSse = false;
     let destroyed = false;
 
+    // OpenCode pauses the tool until its permission request is answered, so the
+    // hook runs off the SSE loop and a slow decision doesn't hold up other events
+    const answerPermission = async (permission: Permission): Promise<void> => {
+      const decision = await askPermission(
+        config,
+        toOpenCodePermissionRequest(permission, config.contextId),
+        { kind: 'approved' },
+      );
+      try {
+        await client.postSessionIdPermissionsPermissionId({
+          path: { id: sessionId, permissionID: permission.id },
+          body: { response: decision.kind === 'approved' ? 'once' : 'reject' },
+        });
+      } catch (err: unknown) {
+        config.onEvent({
+          id: uuid(), contextId: config.contextId, type: 'error',
+          content: `OpenCode permission reply failed: ${err instanceof Error ? err.message : String(err)}`,
+          timestamp: Date.now(),
+        });
+      }
+    };
+
+    const toolStates = new Map<string, 'pending' | 'running'>();
+
+    // OpenCode has already handed the result to the model, so the hook can only observe it.
+    // A finished part can be updated again, so results are remembered until the next prompt.
+    const reportedToolResults = new Set<string>();
+    const observeToolResult = (part: OpenCodePart): void => {
+      if (!config.hooks?.onPostToolUse || part.type !== 'tool' || part.sessionID !== sessionId) return;
+      const state = part.state;
+      if ((state.status !== 'completed' && state.status !== 'error') || reportedToolResults.has(part.callID)) return;
+      reportedToolResults.add(part.callID);
+      void runPostToolUse(
+        config,
+        { toolName: part.tool, toolCallId: part.callID, input: state.input, agentType: 'opencode', sessionId, contextId: config.contextId },
+        state.status === 'completed'
+          ? { output: state.output, isError: false, rawOutput: state }
+          : { output: state.error, isError: true, rawOutput: state },
+      );
+    };
+
     try {
       sseAbortController = new AbortController();
       const sse = await client.event.subscribe({
@@ -141,7 +275,11 @@ export class OpenCodeProvider implements AgentProvider {
         try {
           for await (const event of sseStream!) {
             if (destroyed) break;
-            mapOpenCodeEvent(sessionId, event, config.contextId, config.onEvent);
+            if (event.type === 'permission.updated' && event.properties.sessionID === sessionId && hasPermissionCheck(config)) {
+              void answerPermission(event.properties);
+            }
+            if (event.type === 'message.part.updated') observeToolResult(event.properties.part);
+            mapOpenCodeEvent(sessionId, event, config.contextId, config.onEvent, toolStates);
           }
         } catch {
           // SSE connection lost — non-critical, prompt() still returns final result
@@ -159,77 +297,103 @@ export class OpenCodeProvider implements AgentProvider {
         return sessionId;
       },
 
-      async execute(prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult> {
-        if (attachments?.length) {
-          console.warn('[opencode-provider] attachments are not supported by OpenCode — they will be ignored');
-        }
-        try {
-          const result = await client.session.prompt({
-            path: { id: sessionId },
-            body: {
-              ...(model ? { model } : {}),
-              parts: [{ type: 'text', text: prompt }],
-              ...(isFirstPrompt && config.systemPrompt ? { system: config.systemPrompt } : {}),
-            },
-          });
-          isFirstPrompt = false;
-
-          const info = result.data?.info;
-          if (info && 'error' in info && info.error) {
-            const errMsg = extractErrorMessage(info.error);
-            const diag = formatDiagnostic(diagnoseError('opencode', errMsg, config.workingDirectory));
-            config.onEvent({
-              id: uuid(), contextId: config.contextId, type: 'error',
-              content: `OpenCode SDK error: ${diag}`, timestamp: Date.now(),
-            });
-            return { status: 'failed', error: diag };
+      execute: (prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult> => {
+        const { attachments, outputSchema, ...cancellation } = resolveExecuteOptions(options);
+        return runCancellable(cancellation, () => agentSession.abort(), () => turn.run(async () => {
+          reportedToolResults.clear();
+          if (attachments?.length) {
+            console.warn('[opencode-provider] attachments are not supported by OpenCode — they will be ignored');
           }
-
-          // Emit events from response parts only when SSE is unavailable
-          if (!hasSse && result.data?.parts) {
-            emitPartsAsEvents(result.data.parts, sessionId, config.contextId, config.onEvent);
-          }
-
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'complete',
-            content: 'OpenCode completed the task.', timestamp: Date.now(),
-          });
-          return { status: 'complete' };
-        } catch (err: unknown) {
-          isFirstPrompt = false;
-          const message = err instanceof Error ? err.message : String(err);
-          const diag = formatDiagnostic(diagnoseError('opencode', message, config.workingDirectory));
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'error',
-            content: `OpenCode SDK error: ${diag}`, timestamp: Date.now(),
+          return runWithOutputSchema(outputSchema, prompt, async text => {
+            try {
+              const result = await client.session.prompt({
+                path: { id: sessionId },
+                body: {
+                  ...(model ? { model } : {}),
+                  ...(agent ? { agent } : {}),
+                  parts: [{ type: 'text', text }],
+                  ...(isFirstPrompt && config.systemPrompt ? { system: config.systemPrompt } : {}),
+                },
+              });
+              isFirstPrompt = false;
+
+              const info = result.data?.info;
+              const finalMessage = extractFinalMessage(result.data?.parts);
+              if (info && 'error' in info && info.error?.name === 'MessageAbortedError') {
+                return { ...cancelledResult(), finalMessage };
+              }
+              if (info && 'error' in info && info.error) {
+                const errMsg = extractErrorMessage(info.error);
+                const diag = formatDiagnostic(diagnoseError('opencode', errMsg, config.workingDirectory));
+                config.onEvent({
+                  id: uuid(), contextId: config.contextId, type: 'error',
+                  content: `OpenCode SDK error: ${diag}`, timestamp: Date.now(),
+                });
+                return { status: 'failed', error: diag, stopReason: 'error', finalMessage };
+              }
+
+              // Emit events from response parts only when SSE is unavailable
+              if (!hasSse && result.data?.parts) {
+                emitPartsAsEvents(result.data.parts, sessionId, config.contextId, config.onEvent);
+                result.data.parts.forEach(observeToolResult);
+              }
+
+              config.onEvent({
+                id: uuid(), contextId: config.contextId, type: 'complete',
+                content: 'OpenCode completed the task.', timestamp: Date.now(),
+              });
+              return {
+                status: 'complete',
+                stopReason: info?.finish === 'length' ? 'max_tokens' : 'end_turn',
+                finalMessage,
+              };
+            } catch (err: unknown) {
+              isFirstPrompt = false;
+              const message = err instanceof Error ? err.message : String(err);
+              const diag = formatDiagnostic(diagnoseError('opencode', message, config.workingDirectory));
+              config.onEvent({
+                id: uuid(), contextId: config.contextId, type: 'error',
+                content: `OpenCode SDK error: ${diag}`, timestamp: Date.now(),
+              });
+              return { status: 'failed', error: diag, stopReason: 'error' };
+            }
           });
-          return { status: 'failed', error: diag };
-        }
+        }));
+      },
+
+      stream(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem> {
+        return turn.stream(() => agentSession.execute(prompt, options));
       },
 
-      async send(message: string, attachments?: AgentAttachment[]): Promise<void> {
+      async send(message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void> {
+        const { attachments, ...cancellation } = resolveExecuteOptions(options);
         if (attachments?.length) {
           console.warn('[opencode-provider] attachments are not supported by OpenCode — they will be ignored');
         }
-        try {
-          const result = await client.session.prompt({
-            path: { id: sessionId },
-            body: {
-              ...(model ? { model } : {}),
-              parts: [{ type: 'text', text: message }],
-            },
-          });
-          if (!hasSse && result.data?.parts) {
-            emitPartsAsEvents(result.data.parts, sessionId, config.contextId, config.onEvent);
+        await sendCancellable(cancellation, () => agentSession.abort(), () => turn.send(async () => {
+          reportedToolResults.clear();
+          try {
+            const result = await client.session.prompt({
+              path: { id: sessionId },
+              body: {
+                ...(model ? { model } : {}),
+                ...(agent ? { agent } : {}),
+                parts: [{ type: 'text', text: message }],
+              },
+            });
+            if (!hasSse && result.data?.parts) {
+              emitPartsAsEvents(result.data.parts, sessionId, config.contextId, config.onEvent);
+              result.data.parts.forEach(observeToolResult);
+            }
+          } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            const diag = formatDiagnostic(diagnoseError('opencode', msg, config.workingDirectory));
+            config.onEvent({
+              id: uuid(), contextId: config.contextId, type: 'error',
+              content: `OpenCode SDK error: ${diag}`, timestamp: Date.now(),
+            });
           }
-        } catch (err: unknown) {
-          const msg = err instanceof Error ? err.message : String(err);
-          const diag = formatDiagnostic(diagnoseError('opencode', msg, config.workingDirectory));
-          config.onEvent({
-            id: uuid(), contextId: config.contextId, type: 'error',
-            content: `OpenCode SDK error: ${diag}`, timestamp: Date.now(),
-          });
-        }
+        }));
       },
 
       async abort(): Promise<void> {
@@ -251,6 +415,8 @@ export class OpenCodeProvider implements AgentProvider {
         }
         sessions.delete(agentSession);
         try { await client.session.delete({ path: { id: sessionId } }); } catch { /* ignore */ }
+        await releaseMcpServers();
+        await toolServer?.close();
       },
     };
 
@@ -262,13 +428,17 @@ export class OpenCodeProvider implements AgentProvider {
 
 /**
  * Map an OpenCode SSE event to unified AgentEvent(s).
- * Only processes events belonging to the given session.
+ * Only processes events belonging to the given session. OpenCode resends a
+ * tool part on every update, so `toolStates` (one map per session) remembers
+ * whether each unfinished call was last seen pending or running, and each
+ * call gets one `started` and at most one `running` event.
  */
 export function mapOpenCodeEvent(
   sessionId: string,
   event: OpenCodeEvent,
   contextId: string,
   onEvent: AgentSessionConfig['onEvent'],
+  toolStates: Map<string, 'pending' | 'running'> = new Map(),
 ): void {
   switch (event.type) {
     case 'message.part.updated': {
@@ -291,25 +461,47 @@ export function mapOpenCodeEvent(
         case 'tool': {
           const toolName = part.tool;
           const state = part.state;
-          if (state.status === 'running') {
+          if (state.status === 'pending' || state.status === 'running') {
+            // A call first seen while running (its pending update was missed) still starts with `started`
+            const previous = toolStates.get(part.callID);
+            if (previous === state.status || previous === 'running') break;
+            toolStates.set(part.callID, state.status);
+            const status: ToolCallStatus = previous ? 'running' : 'started';
             const kind = classifyToolKind(toolName);
+            const file = kind === 'file_read' || kind === 'file_write'
+              ? state.input.filePath ?? state.input.path
+              : undefined;
             onEvent({
               id: uuid(), contextId, type: kind,
               content: `${toolName}: ${JSON.stringify(state.input)}`,
               timestamp: Date.now(),
-              metadata: { command: toolName },
+              metadata: {
+                command: toolName,
+                ...(typeof file === 'string' ? { file } : {}),
+                ...toolCallMetadata(part.callID, toolName, status, state.status === 'running' ? state.time.start : Date.now()),
+              },
             });
           } else if (state.status === 'completed') {
+            toolStates.delete(part.callID);
+            // The edit tool diffs the file itself once it has written it; the running input only has the snippets
+            const diff = editDiff(state.metadata);
+            const file = state.input.filePath ?? state.input.path;
             onEvent({
               id: uuid(), contextId, type: 'command_output',
               content: state.output || '',
               timestamp: Date.now(),
+              metadata: {
+                ...(diff && typeof file === 'string' ? { file, diff } : {}),
+                ...toolCallMetadata(part.callID, toolName, 'completed', state.time.start, state.time.end),
+              },
             });
           } else if (state.status === 'error') {
+            toolStates.delete(part.callID);
             onEvent({
               id: uuid(), contextId, type: 'error',
               content: state.error,
               timestamp: Date.now(),
+              metadata: toolCallMetadata(part.callID, toolName, 'failed', state.time.start, state.time.end),
             });
           }
           break;
@@ -329,6 +521,9 @@ export function mapOpenCodeEvent(
             });
           }
           break;
+        case 'step-finish':
+          emitStepUsage(part, contextId, onEvent);
+          break;
         default:
           break;
       }
@@ -354,6 +549,70 @@ export function mapOpenCodeEvent(
   }
 }
 
+/** Text of the assistant reply, joined from its text parts. */
+function extractFinalMessage(parts: OpenCodePart[] | undefined): string | undefined {
+  const text = (parts ?? [])
+    .map(part => (part.type === 'text' && !part.synthetic ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+  return text || undefined;
+}
+
+/** Normalize the permission OpenCode is waiting on; its `type` is the tool name (`edit`, `bash`, `webfetch`, …). */
+function toOpenCodePermissionRequest(permission: Permission, contextId: string): AgentPermissionRequest {
+  const kind = permissionKindForTool(permission.type);
+  const patterns = typeof permission.pattern === 'string' ? [permission.pattern] : permission.pattern ?? [];
+  // The bash permission's pattern is the command it wants to run
+  const command = kind === 'shell' ? readInputCommand(permission.metadata) ?? patterns[0] : undefined;
+  const paths = readInputPaths(permission.metadata);
+  const urls = readInputUrls(permission.metadata);
+  return {
+    kind,
+    toolName: permission.type,
+    ...(permission.callID ? { toolCallId: permission.callID } : {}),
+    ...(command ? { command } : {}),
+    ...(paths.length ? { paths } : {}),
+    ...(urls.length ? { urls } : {}),
+    title: permission.title,
+    rawInput: permission.metadata,
+    agentType: 'opencode',
+    sessionId: permission.sessionID,
+    contextId,
+  };
+}
+
+/**
+ * OpenCode's edit tool reports a whole-file unified diff in its completed
+ * metadata, prefixed with jsdiff's `Index:`/`===` lines; write and patch
+ * report none.
+ */
+function editDiff(metadata: Record<string, unknown> | undefined): string | undefined {
+  const diff = metadata?.diff;
+  if (typeof diff !== 'string') return undefined;
+  const start = diff.search(/^--- /m);
+  return start === -1 || !diff.includes('\n@@') ? undefined : diff.slice(start).trimEnd();
+}
+
+/**
+ * Tool lifecycle metadata from an OpenCode ToolPart. OpenCode reports its own
+ * start/end times, so no client-side tracking is needed.
+ */
+function toolCallMetadata(
+  toolCallId: string,
+  toolName: string,
+  toolStatus: ToolCallStatus,
+  startedAt: number,
+  endedAt?: number,
+): AgentEventMetadata {
+  return {
+    toolCallId,
+    toolName,
+    toolStatus,
+    startedAt,
+    ...(endedAt !== undefined ? { endedAt, duration: endedAt - startedAt } : {}),
+  };
+}
+
 /**
  * Start OpenCode in its own process group so stop() can terminate both the
  * Node wrapper and the underlying .opencode child. The upstream SDK only kills
@@ -440,11 +699,19 @@ function emitPartsAsEvents(
       case 'tool':
         if (part.state.status === 'completed') {
           const kind = classifyToolKind(part.tool);
+          const file = part.state.input.filePath ?? part.state.input.path;
+          // Completed edit tools report the applied patch in their metadata
+          const diff = kind === 'file_write' ? editDiff(part.state.metadata) : undefined;
           onEvent({
             id: uuid(), contextId, type: kind,
             content: `${part.tool}: ${part.state.title || ''}`,
             timestamp: Date.now(),
-            metadata: { command: part.tool },
+            metadata: {
+              command: part.tool,
+              ...(kind === 'file_write' && typeof file === 'string' ? { file } : {}),
+              ...(diff ? { diff } : {}),
+              ...toolCallMetadata(part.callID, part.tool, 'completed', part.state.time.start, part.state.time.end),
+            },
           });
         }
         break;
@@ -457,8 +724,35 @@ function emitPartsAsEvents(
           });
         }
         break;
+      case 'step-finish':
+        emitStepUsage(part, contextId, onEvent);
+        break;
       default:
         break;
     }
   }
 }
+
+/**
+ * Emit a usage event for a finished OpenCode step. Steps are the unit OpenCode
+ * bills in, so summing them gives the per-prompt total.
+ */
+function emitStepUsage(
+  part: StepFinishPart,
+  contextId: string,
+  onEvent: AgentSessionConfig['onEvent'],
+): void {
+  const usage: AgentUsage = {
+    inputTokens: part.tokens.input,
+    outputTokens: part.tokens.output,
+    cachedInputTokens: part.tokens.cache.read,
+    cacheWriteTokens: part.tokens.cache.write,
+    reasoningTokens: part.tokens.reasoning,
+    costUsd: part.cost,
+  };
+  onEvent({
+    id: uuid(), contextId, type: 'usage',
+    content: describeUsage(usage), timestamp: Date.now(),
+    metadata: { usage },
+  });
+}
@@ -0,0 +1,138 @@
+import type {
+  AgentPermissionDecision,
+  AgentPermissionRequest,
+  AgentSessionConfig,
+  PermissionDecisionSource,
+  PermissionRule,
+} from '../types/providers.js';
+import { evaluatePermissionPolicy } from './policy.js';
+import { classifyToolKind } from './tool-classification.js';
+import { createWorktreeRewriter, isWorktreeSession } from './worktree.js';
+import { isObject } from './guards.js';
+
+type PermissionConfig = Pick<AgentSessionConfig, 'hooks' | 'mode' | 'permissionPolicy' | 'permissionAudit' | 'workingDirectory' | 'repoPath'>;
+
+/** Permission kinds a plan-mode session never grants */
+const PLAN_MODE_DENIED_KINDS = new Set(['write', 'shell']);
+
+/**
+ * Decide a tool call: writes and shell commands in a plan-mode session and
+ * calls that reach into the main checkout of a worktree session are denied,
+ * then the session's permissionPolicy applies, then the consumer's
+ * onPermissionRequest hook. Providers pass the decision they would
+ * make without either as `fallback`. A hook that throws denies the call
+ * rather than letting it run unchecked. Every decision goes to the session's
+ * permissionAudit log.
+ */
+export async function askPermission(
+  config: PermissionConfig,
+  request: AgentPermissionRequest,
+  fallback: AgentPermissionDecision,
+): Promise<AgentPermissionDecision> {
+  if (config.mode === 'plan' && PLAN_MODE_DENIED_KINDS.has(request.kind)) {
+    const message = `${request.toolName ?? request.kind} is not allowed in plan mode`;
+    return recordPermission(config, request, { kind: 'denied-by-rules', message }, 'mode');
+  }
+
+  const violation = createWorktreeRewriter(config, `${request.agentType}-provider`)?.checkoutViolation(request);
+  if (violation) return recordPermission(config, request, { kind: 'denied-by-rules', message: violation }, 'worktree');
+
+  const hook = config.hooks?.onPermissionRequest;
+  if (config.permissionPolicy) {
+    const verdict = evaluatePermissionPolicy(config.permissionPolicy, request, config.workingDirectory);
+    if (verdict.action === 'allow') {
+      return recordPermission(config, request, { kind: 'approved', message: verdict.explanation }, 'policy', verdict.rule);
+    }
+    if (verdict.action === 'deny') {
+      return recordPermission(config, request, { kind: 'denied-by-rules', message: verdict.explanation }, 'policy', verdict.rule);
+    }
+    if (!hook) {
+      const message = `${verdict.explanation} (no onPermissionRequest hook to ask)`;
+      return recordPermission(config, request, { kind: 'denied-by-rules', message }, 'policy', verdict.rule);
+    }
+    request = { ...request, policy: verdict };
+  }
+
+  if (!hook) return recordPermission(config, request, fallback, 'fallback');
+  let decision: AgentPermissionDecision;
+  try {
+    decision = await hook(request);
+  } catch (err: unknown) {
+    decision = {
+      kind: 'denied-by-rules',
+      message: `Permission hook failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  return recordPermission(config, request, decision, 'hook', request.policy?.rule);
+}
+
+/**
+ * Append a decision to the session's audit log and return it. A decision
+ * that can't be recorded becomes a denial, so nothing runs unaudited.
+ */
+export async function recordPermission(
+  config: Pick<AgentSessionConfig, 'permissionAudit'>,
+  request: AgentPermissionRequest,
+  decision: AgentPermissionDecision,
+  decidedBy: PermissionDecisionSource,
+  rule?: PermissionRule,
+): Promise<AgentPermissionDecision> {
+  if (!config.permissionAudit) return decision;
+  try {
+    await config.permissionAudit.record({ request, decision, decidedBy, ...(rule ? { rule } : {}) });
+    return decision;
+  } catch (err: unknown) {
+    return {
+      kind: 'denied-by-rules',
+      message: `Permission audit failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+/** Whether a session needs the provider's permission callback at all. */
+export function hasPermissionCheck(config: PermissionConfig): boolean {
+  return Boolean(config.permissionPolicy || config.hooks?.onPermissionRequest || config.permissionAudit)
+    || config.mode === 'plan'
+    || isWorktreeSession(config);
+}
+
+/** Permission kind for an SDK tool name (Claude `Bash`, OpenCode `bash`, `mcp__server__tool`, …). */
+export function permissionKindForTool(toolName: string): string {
+  const name = toolName.toLowerCase();
+  if (name.startsWith('mcp__')) return 'mcp';
+  if (name === 'bash' || name === 'shell' || name.includes('exec')) return 'shell';
+  if (name === 'webfetch' || name === 'websearch' || name === 'fetch') return 'url';
+  switch (classifyToolKind(toolName)) {
+    case 'file_read': return 'read';
+    case 'file_write': return 'write';
+    default: return name === 'glob' || name === 'ls' || name === 'list' ? 'read' : 'other';
+  }
+}
+
+/** Command line from a shell tool's input (`command` or `cmd`, string or argv). */
+export function readInputCommand(input: unknown): string | undefined {
+  if (!isObject(input)) return undefined;
+  const command = input.command ?? input.cmd;
+  if (typeof command === 'string') return command;
+  if (Array.isArray(command) && command.every(part => typeof part === 'string')) return command.join(' ');
+  return undefined;
+}
+
+/** File paths named in a tool's input under the keys SDKs commonly use. */
+export function readInputPaths(input: unknown): string[] {
+  if (!isObject(input)) return [];
+  const paths: string[] = [];
+  for (const key of ['file_path', 'filePath', 'notebook_path', 'path', 'paths', 'filepath']) {
+    const value = input[key];
+    if (typeof value === 'string') paths.push(value);
+    else if (Array.isArray(value)) paths.push(...value.filter((item): item is string => typeof item === 'string'));
+  }
+  return [...new Set(paths)];
+}
+
+/** URLs named in a tool's input (`url` or `urls`). */
+export function readInputUrls(input: unknown): string[] {
+  if (!isObject(input)) return [];
+  const urls = [input.url, ...(Array.isArray(input.urls) ? input.urls : [input.urls])];
+  return [...new Set(urls.filter((url): url is string => typeof url === 'string'))];
+}
@@ -0,0 +1,52 @@
+import type { AgentPlanEntry, PlanEntryPriority, PlanEntryStatus } from '../types/events.js';
+import { isObject } from './guards.js';
+
+/** Map an SDK's entry status onto the normalized plan status (unknown values count as pending). */
+export function normalizePlanStatus(status: unknown): PlanEntryStatus {
+  switch (status) {
+    case 'in_progress':
+    case 'completed':
+      return status;
+    default:
+      return 'pending';
+  }
+}
+
+export function normalizePlanPriority(priority: unknown): PlanEntryPriority | undefined {
+  return priority === 'high' || priority === 'medium' || priority === 'low' ? priority : undefined;
+}
+
+/**
+ * Readable checklist for the content of a plan event, so consumers that only
+ * show text still get something useful; structured entries live in metadata.plan.
+ */
+export function describePlan(entries: AgentPlanEntry[]): string {
+  return entries
+    .map(entry => `${entry.status === 'completed' ? '[x]' : entry.status === 'in_progress' ? '[~]' : '[ ]'} ${entry.content}`)
+    .join('\n');
+}
+
+/** Claude TodoWrite input: `{ todos: [{ content, status }] }`. */
+export function planFromTodoWrite(input: unknown): AgentPlanEntry[] | undefined {
+  if (!isObject(input) || !Array.isArray(input.todos)) return undefined;
+  return input.todos.filter(isObject).flatMap(todo => {
+    if (typeof todo.content !== 'string') return [];
+    const priority = normalizePlanPriority(todo.priority);
+    return [{ content: todo.content, status: normalizePlanStatus(todo.status), ...(priority ? { priority } : {}) }];
+  });
+}
+
+/** A markdown checklist (`- [x] done`, `- [ ] todo`), as written by Copilot's todo tool. */
+export function planFromChecklist(text: string): AgentPlanEntry[] {
+  const entries: AgentPlanEntry[] = [];
+  for (const line of text.split('\n')) {
+    const match = /^\s*(?:[-*]|\d+\.)\s+\[([ xX~-])\]\s+(.+?)\s*$/.exec(line);
+    if (!match) continue;
+    const mark = match[1].toLowerCase();
+    entries.push({
+      content: match[2],
+      status: mark === 'x' ? 'completed' : mark === ' ' ? 'pending' : 'in_progress',
+    });
+  }
+  return entries;
+}
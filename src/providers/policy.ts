@@ -0,0 +1,232 @@
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type {
+  AgentPermissionRequest,
+  PermissionPolicy,
+  PermissionPolicyAction,
+  PermissionPolicyDecision,
+  PermissionRule,
+} from '../types/providers.js';
+import { isObject } from './guards.js';
+
+const ACTIONS: readonly PermissionPolicyAction[] = ['allow', 'deny', 'ask'];
+/** Precedence when several rules match */
+const PRECEDENCE: readonly PermissionPolicyAction[] = ['deny', 'ask', 'allow'];
+const ACTION_LABELS: Record<PermissionPolicyAction, string> = {
+  allow: 'Allowed',
+  deny: 'Denied',
+  ask: 'Approval required',
+};
+
+/**
+ * Decide a permission request against a policy. `workingDirectory` anchors
+ * relative path globs, so one policy file means the same thing for every
+ * session and every provider.
+ */
+export function evaluatePermissionPolicy(
+  policy: PermissionPolicy,
+  request: AgentPermissionRequest,
+  workingDirectory: string,
+): PermissionPolicyDecision {
+  const matches = policy.rules
+    .map((rule, index) => ({ rule, index }))
+    .filter(({ rule }) => ruleMatches(rule, request, workingDirectory));
+
+  for (const action of PRECEDENCE) {
+    const match = matches.find(({ rule }) => rule.action === action);
+    if (match) {
+      return {
+        action,
+        rule: match.rule,
+        explanation: `${ACTION_LABELS[action]} by policy rule ${match.index + 1}: ${match.rule.reason ?? describeRule(match.rule)}`,
+      };
+    }
+  }
+
+  const action = policy.defaultAction ?? 'ask';
+  return { action, explanation: `${ACTION_LABELS[action]} by policy default: no rule matches ${describeRequest(request)}` };
+}
+
+/** Validate a parsed policy document (e.g. a JSON policy file), throwing on the first problem. */
+export function parsePermissionPolicy(value: unknown): PermissionPolicy {
+  if (!isObject(value) || !Array.isArray(value.rules)) {
+    throw new Error('Invalid permission policy: expected an object with a rules array');
+  }
+  const defaultAction = value.defaultAction;
+  if (defaultAction !== undefined && !isAction(defaultAction)) {
+    throw new Error(`Invalid permission policy: defaultAction must be one of ${ACTIONS.join(', ')}`);
+  }
+
+  const rules = value.rules.map((rule: unknown, index: number): PermissionRule => {
+    const where = `rules[${index}]`;
+    if (!isObject(rule) || !isAction(rule.action)) {
+      throw new Error(`Invalid permission policy: ${where}.action must be one of ${ACTIONS.join(', ')}`);
+    }
+    const parsed: PermissionRule = { action: rule.action };
+    for (const key of ['kind', 'tool'] as const) {
+      const field = rule[key];
+      if (field === undefined) continue;
+      if (!isStringOrStrings(field)) {
+        throw new Error(`Invalid permission policy: ${where}.${key} must be a string or an array of strings`);
+      }
+      parsed[key] = field;
+    }
+    for (const key of ['paths', 'urls'] as const) {
+      const field = rule[key];
+      if (field === undefined) continue;
+      if (!isStrings(field)) {
+        throw new Error(`Invalid permission policy: ${where}.${key} must be an array of strings`);
+      }
+      parsed[key] = field;
+    }
+    if (rule.command !== undefined) {
+      if (typeof rule.command !== 'string' && !(rule.command instanceof RegExp)) {
+        throw new Error(`Invalid permission policy: ${where}.command must be a regular expression string`);
+      }
+      try {
+        toRegExp(rule.command);
+      } catch (err: unknown) {
+        throw new Error(`Invalid permission policy: ${where}.command is not a valid regular expression (${err instanceof Error ? err.message : String(err)})`);
+      }
+      parsed.command = rule.command;
+    }
+    if (rule.reason !== undefined) {
+      if (typeof rule.reason !== 'string') {
+        throw new Error(`Invalid permission policy: ${where}.reason must be a string`);
+      }
+      parsed.reason = rule.reason;
+    }
+    return parsed;
+  });
+
+  return { rules, ...(defaultAction ? { defaultAction } : {}) };
+}
+
+/** Read and validate a JSON policy file. */
+export async function loadPermissionPolicy(filePath: string): Promise<PermissionPolicy> {
+  const text = await readFile(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: unknown) {
+    throw new Error(`Invalid permission policy ${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parsePermissionPolicy(parsed);
+}
+
+/**
+ * Match a path glob: `*` and `?` stay within one path segment, `**` spans
+ * segments. A glob without a slash matches the file name at any depth, as in
+ * .gitignore.
+ */
+export function matchGlob(glob: string, path: string): boolean {
+  const target = glob.includes('/') ? path : path.slice(path.lastIndexOf('/') + 1);
+  return globToRegExp(glob).test(target);
+}
+
+function ruleMatches(rule: PermissionRule, request: AgentPermissionRequest, workingDirectory: string): boolean {
+  // Allow rules must cover everything the call touches; deny/ask rules fire on any overlap
+  const quantifier = rule.action === 'allow' ? 'every' : 'some';
+
+  if (rule.kind !== undefined && !toList(rule.kind).includes(request.kind)) return false;
+  if (rule.tool !== undefined) {
+    const toolName = request.toolName?.toLowerCase();
+    if (!toolName || !toList(rule.tool).some(tool => tool.toLowerCase() === toolName)) return false;
+  }
+  if (rule.command !== undefined && (!request.command || !toRegExp(rule.command).test(request.command))) return false;
+  if (rule.paths !== undefined) {
+    const paths = request.paths ?? [];
+    const globs = rule.paths;
+    if (!paths.length || !paths[quantifier](path => globs.some(glob => matchPath(glob, path, workingDirectory)))) return false;
+  }
+  if (rule.urls !== undefined) {
+    const urls = request.urls ?? [];
+    const patterns = rule.urls;
+    if (!urls.length || !urls[quantifier](url => patterns.some(pattern => matchUrl(pattern, url)))) return false;
+  }
+  return true;
+}
+
+/** Only an absolute glob can match outside workingDirectory; a relative one never reaches `..` or another drive. */
+function matchPath(glob: string, path: string, workingDirectory: string): boolean {
+  const absolute = resolve(workingDirectory, path);
+  if (isAbsolute(glob)) return matchGlob(toPosix(glob), toPosix(absolute));
+  const inside = relative(workingDirectory, absolute);
+  if (inside === '..' || inside.startsWith(`..${sep}`) || isAbsolute(inside)) return false;
+  return matchGlob(glob, toPosix(inside));
+}
+
+function matchUrl(pattern: string, url: string): boolean {
+  if (pattern.includes('://')) return globToRegExp(pattern).test(url);
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+  return globToRegExp(pattern).test(host);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` may also match no directories at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function describeRule(rule: PermissionRule): string {
+  const parts = [
+    rule.kind !== undefined ? `kind ${toList(rule.kind).join('|')}` : undefined,
+    rule.tool !== undefined ? `tool ${toList(rule.tool).join('|')}` : undefined,
+    rule.command !== undefined ? `command ${toRegExp(rule.command)}` : undefined,
+    rule.paths !== undefined ? `paths ${rule.paths.join(', ')}` : undefined,
+    rule.urls !== undefined ? `urls ${rule.urls.join(', ')}` : undefined,
+  ].filter(Boolean);
+  return `${rule.action} ${parts.length ? parts.join(', ') : 'everything'}`;
+}
+
+function describeRequest(request: AgentPermissionRequest): string {
+  const target = request.command ?? request.paths?.join(', ') ?? request.urls?.join(', ') ?? request.toolName;
+  return target ? `${request.kind} ${target}` : request.kind;
+}
+
+function toRegExp(pattern: string | RegExp): RegExp {
+  return typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+}
+
+function toList(value: string | string[]): string[] {
+  return typeof value === 'string' ? [value] : value;
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+function isAction(value: unknown): value is PermissionPolicyAction {
+  return typeof value === 'string' && (ACTIONS as readonly string[]).includes(value);
+}
+
+function isStringOrStrings(value: unknown): value is string | string[] {
+  return typeof value === 'string' || isStrings(value);
+}
+
+function isStrings(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
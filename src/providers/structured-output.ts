@@ -0,0 +1,173 @@
+import type { AgentOutputSchema, AgentResult } from '../types/providers.js';
+import { isObject } from './guards.js';
+
+/** Attempts, including the first, before a prompted provider's invalid output fails the call */
+const MAX_STRUCTURED_OUTPUT_ATTEMPTS = 3;
+
+/**
+ * Validate a value against the subset of JSON Schema agents are asked to
+ * produce: type, enum, const, properties, required, additionalProperties,
+ * items, and anyOf. Returns one message per violation, empty when valid.
+ */
+export function validateJsonSchema(value: unknown, schema: AgentOutputSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.filter(isSchema);
+    if (!branches.some(branch => validateJsonSchema(value, branch, path).length === 0)) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+  }
+  if ('const' in schema && !jsonEqual(value, schema.const)) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => jsonEqual(value, option))) {
+    errors.push(`${path}: expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  const types = typeof schema.type === 'string' ? [schema.type] : Array.isArray(schema.type) ? schema.type : undefined;
+  if (types && !types.some(type => matchesType(value, String(type)))) {
+    errors.push(`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+    return errors;
+  }
+
+  if (isObject(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === 'string' && !(key in value)) errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isSchema(propertySchema)) {
+        errors.push(...validateJsonSchema(child, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not an allowed property`);
+      } else if (isSchema(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (Array.isArray(value) && isSchema(schema.items)) {
+    const items = schema.items;
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, items, `${path}[${index}]`)));
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the JSON value an agent was asked to reply with. Tolerates a fenced
+ * code block or prose around a single top-level object/array.
+ */
+export function parseJsonOutput(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)\n?```/.exec(trimmed);
+  const candidates = [trimmed, fenced?.[1]?.trim(), sliceJson(trimmed)];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next, narrower candidate
+    }
+  }
+  throw new Error('reply is not valid JSON');
+}
+
+/**
+ * Attach validated structured output to a completed result. Uses `result.data`
+ * when the SDK already returned parsed output, otherwise parses finalMessage.
+ * A result without a schema, or one that did not complete, passes through.
+ */
+export function applyOutputSchema(result: AgentResult, schema: AgentOutputSchema | undefined): AgentResult {
+  if (!schema || result.status !== 'complete') return result;
+  const checked = checkStructuredOutput(result, schema);
+  if ('error' in checked) {
+    return { ...result, status: 'failed', error: `Structured output invalid: ${checked.error}`, stopReason: 'error' };
+  }
+  return { ...result, data: checked.data };
+}
+
+/**
+ * Structured output for providers without native schema support: append the
+ * schema to the prompt, validate the reply, and ask the agent to correct it
+ * until it conforms or the attempts run out. `run` receives `isRetry` so
+ * per-message attachments are only sent with the original prompt.
+ */
+export async function runWithOutputSchema(
+  schema: AgentOutputSchema | undefined,
+  prompt: string,
+  run: (prompt: string, isRetry: boolean) => Promise<AgentResult>,
+): Promise<AgentResult> {
+  if (!schema) return run(prompt, false);
+
+  let result = await run(`${prompt}\n\n${describeOutputSchema(schema)}`, false);
+  for (let attempt = 1; ; attempt++) {
+    if (result.status !== 'complete') return result;
+    const checked = checkStructuredOutput(result, schema);
+    if (!('error' in checked)) return { ...result, data: checked.data };
+    if (attempt >= MAX_STRUCTURED_OUTPUT_ATTEMPTS) {
+      return { ...result, status: 'failed', error: `Structured output invalid: ${checked.error}`, stopReason: 'error' };
+    }
+    result = await run(
+      `Your last reply did not match the required JSON Schema (${checked.error}). `
+        + 'Reply again with only the corrected JSON value — no prose and no code fences.',
+      true,
+    );
+  }
+}
+
+function describeOutputSchema(schema: AgentOutputSchema): string {
+  return 'When you have finished, reply with only a JSON value that conforms to this JSON Schema — '
+    + `no prose and no code fences:\n${JSON.stringify(schema)}`;
+}
+
+function checkStructuredOutput(result: AgentResult, schema: AgentOutputSchema): { data: unknown } | { error: string } {
+  let data = result.data;
+  if (data === undefined) {
+    if (!result.finalMessage) return { error: 'agent returned no final message' };
+    try {
+      data = parseJsonOutput(result.finalMessage);
+    } catch (err: unknown) {
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+  const errors = validateJsonSchema(data, schema);
+  return errors.length ? { error: errors.join('; ') } : { data };
+}
+
+function sliceJson(text: string): string | undefined {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  return start !== -1 && end > start ? text.slice(start, end + 1) : undefined;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object': return isObject(value);
+    case 'array': return Array.isArray(value);
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isSchema(value: unknown): value is AgentOutputSchema {
+  return isObject(value);
+}
@@ -0,0 +1,63 @@
+import type { AgentEventMetadata } from '../types/events.js';
+
+/**
+ * Nests events under the sub-agent that emitted them. SDKs identify a
+ * sub-agent by the tool call that delegated to it and tag the sub-agent's own
+ * messages with that ID, so every call returns the parentId/depth metadata
+ * for the next event.
+ */
+export class SubagentTracker {
+  /** Tool call ID → the sub-agent it was made inside */
+  private parents = new Map<string, string>();
+  /** Sub-agent (delegating tool call ID) → its own depth */
+  private depths = new Map<string, number>();
+
+  /** Whether `toolCallId` started a sub-agent. */
+  has(toolCallId: string): boolean {
+    return this.depths.has(toolCallId);
+  }
+
+  /**
+   * Metadata for an event emitted inside the sub-agent `parentId` (empty for
+   * the main agent). Pass the event's toolCallId so a sub-agent that call
+   * later starts is placed under the right parent.
+   */
+  nest(parentId: string | null | undefined, toolCallId?: string): AgentEventMetadata {
+    if (!parentId) return {};
+    if (toolCallId) this.parents.set(toolCallId, parentId);
+    return { parentId, depth: (this.depths.get(parentId) ?? 0) + 1 };
+  }
+
+  /**
+   * Metadata for a subagent_start; the sub-agent's own events nest one level
+   * below it. Without `parentId`, the parent recorded for the delegating tool
+   * call by nest() is used.
+   */
+  start(toolCallId: string, parentId?: string | null): AgentEventMetadata {
+    const nesting = this.nest(parentId ?? this.parents.get(toolCallId), toolCallId);
+    const depth = nesting.depth ?? 0;
+    this.depths.set(toolCallId, depth);
+    return { ...nesting, depth };
+  }
+
+  /**
+   * Metadata for a subagent_end, placed at the same level as its start. The
+   * sub-agent is forgotten, along with the tool calls made inside it that
+   * didn't start sub-agents of their own.
+   */
+  end(toolCallId: string): AgentEventMetadata {
+    const parentId = this.parents.get(toolCallId);
+    const metadata = { ...(parentId ? { parentId } : {}), depth: this.depths.get(toolCallId) ?? 0 };
+    this.parents.delete(toolCallId);
+    this.depths.delete(toolCallId);
+    for (const [child, parent] of this.parents) {
+      if (parent === toolCallId && !this.depths.has(child)) this.parents.delete(child);
+    }
+    return metadata;
+  }
+
+  clear(): void {
+    this.parents.clear();
+    this.depths.clear();
+  }
+}
@@ -0,0 +1,52 @@
+import type { AgentEventMetadata, ToolCallStatus } from '../types/events.js';
+
+type TrackedToolCall = {
+  toolName?: string;
+  startedAt: number;
+};
+
+/**
+ * Correlates the events of one tool invocation for SDKs that report the tool
+ * name and start only once. Every call to `track()` returns the lifecycle
+ * metadata (toolCallId, toolName, toolStatus, timestamps) for the next event.
+ */
+export class ToolCallTracker {
+  private calls = new Map<string, TrackedToolCall>();
+
+  /** Whether a start has been seen for the call and it has not finished yet. */
+  has(toolCallId: string): boolean {
+    return this.calls.has(toolCallId);
+  }
+
+  track(
+    toolCallId: string,
+    status: ToolCallStatus,
+    toolName?: string,
+    now = Date.now(),
+  ): AgentEventMetadata {
+    let call = this.calls.get(toolCallId);
+    if (!call) {
+      call = { toolName, startedAt: now };
+      this.calls.set(toolCallId, call);
+    } else if (toolName && !call.toolName) {
+      call.toolName = toolName;
+    }
+
+    const metadata: AgentEventMetadata = {
+      toolCallId,
+      toolStatus: status,
+      startedAt: call.startedAt,
+      ...(call.toolName ? { toolName: call.toolName } : {}),
+    };
+    if (status === 'completed' || status === 'failed') {
+      this.calls.delete(toolCallId);
+      metadata.endedAt = now;
+      metadata.duration = now - call.startedAt;
+    }
+    return metadata;
+  }
+
+  clear(): void {
+    this.calls.clear();
+  }
+}
@@ -14,7 +14,7 @@ export function classifyToolKind(toolName: string | undefined): AgentEventType {
   }
 
   // File write operations
-  if (name === 'write' || name === 'edit' || name === 'multiedit' ||
+  if (name === 'write' || name === 'edit' || name === 'multiedit' || name === 'notebookedit' ||
       name.includes('patch') || name.includes('insert')) {
     return 'file_write';
   }
@@ -0,0 +1,74 @@
+import { v4 as uuid } from 'uuid';
+import type {
+  AgentSessionConfig,
+  AgentSessionHooks,
+  AgentToolCall,
+  AgentToolResult,
+  AgentToolResultOverride,
+} from '../types/providers.js';
+import { isObject } from './guards.js';
+
+/**
+ * Pass a tool call's hook input to the consumer's onPreToolUse hook. The hook
+ * sees the input with `cwd` set and may return fields to merge into it, such
+ * as replacement `toolArgs`.
+ */
+export function runPreToolUse<T extends Record<string, unknown>>(
+  hooks: AgentSessionHooks | undefined,
+  input: T,
+): T {
+  const hookInput = { ...input };
+  const result = hooks?.onPreToolUse?.(hookInput);
+  if (result && typeof result === 'object') Object.assign(hookInput, result);
+  return hookInput;
+}
+
+/**
+ * Pass a finished tool call to the consumer's onPostToolUse hook. A hook that
+ * throws is reported as an error event and leaves the result unchanged.
+ */
+export async function runPostToolUse(
+  config: Pick<AgentSessionConfig, 'hooks' | 'contextId' | 'onEvent'>,
+  toolCall: AgentToolCall,
+  result: AgentToolResult,
+): Promise<AgentToolResultOverride | undefined> {
+  const hook = config.hooks?.onPostToolUse;
+  if (!hook) return undefined;
+  try {
+    return (await hook(toolCall, result)) ?? undefined;
+  } catch (err: unknown) {
+    config.onEvent({
+      id: uuid(), contextId: config.contextId, type: 'error',
+      content: `onPostToolUse hook failed for ${toolCall.toolName}: ${err instanceof Error ? err.message : String(err)}`,
+      timestamp: Date.now(),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Text for a native tool result: strings as-is, MCP-style content blocks
+ * joined, shell results as stdout + stderr, anything else as JSON.
+ */
+export function toolOutputText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) {
+    return value
+      .map(block => (isObject(block) && typeof block.text === 'string' ? block.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  if (isObject(value)) {
+    if (Array.isArray(value.content)) return toolOutputText(value.content);
+    if (typeof value.stdout === 'string' || typeof value.stderr === 'string') {
+      return [value.stdout, value.stderr].filter(part => typeof part === 'string' && part).join('\n');
+    }
+    if (typeof value.output === 'string') return value.output;
+  }
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
@@ -0,0 +1,185 @@
+import { v4 as uuid } from 'uuid';
+import type { AgentEvent, AgentUsage, FileChangeKind } from '../types/events.js';
+import type {
+  AgentFileChange,
+  AgentResult,
+  AgentSessionConfig,
+  AgentStreamItem,
+} from '../types/providers.js';
+
+type RecordedChange = {
+  kind: FileChangeKind;
+  /** Tool call that first changed the file, so a failed call can retract it */
+  toolCallId?: string;
+};
+
+/**
+ * Sits between a provider and the consumer's onEvent callback and folds the
+ * events of the current execute() call into its AgentResult, so every provider
+ * reports the same result fields without tracking them by hand. Providers
+ * supply what only the SDK knows (status, stopReason, finalMessage); the
+ * recorder adds turnId, duration, changed files, and summed usage. Every
+ * event passing through is stamped with the session's next `seq` and the
+ * `turnId` of the execute()/send() call that produced it.
+ *
+ * Usage:
+ *   const turn = new TurnRecorder(config.onEvent);
+ *   config = { ...config, onEvent: turn.onEvent };
+ *   execute: (prompt) => turn.run(() => runPrompt(prompt)),
+ *   stream: (prompt) => turn.stream(() => session.execute(prompt)),
+ *   send: (message) => turn.send(() => runPrompt(message)),
+ */
+export class TurnRecorder {
+  private forward: AgentSessionConfig['onEvent'];
+  private usage: AgentUsage | undefined;
+  private files = new Map<string, RecordedChange>();
+  private listeners = new Set<(event: AgentEvent) => void>();
+  private seq = 0;
+  private turnId: string | undefined;
+
+  constructor(forward: AgentSessionConfig['onEvent']) {
+    this.forward = forward;
+  }
+
+  readonly onEvent = (event: AgentEvent): void => {
+    const stamped: AgentEvent = { ...event, seq: ++this.seq, ...(this.turnId ? { turnId: this.turnId } : {}) };
+    this.record(stamped);
+    this.forward(stamped);
+    for (const listener of this.listeners) listener(stamped);
+  };
+
+  /** Run one execute() call and attach what was observed to its result. */
+  async run(execute: () => Promise<AgentResult>): Promise<AgentResult> {
+    this.usage = undefined;
+    this.files.clear();
+    const startedAt = Date.now();
+    const turnId = this.startTurn();
+    try {
+      const result = await execute();
+      const changedFiles: AgentFileChange[] = [...this.files].map(([path, change]) => ({ path, kind: change.kind }));
+      return {
+        ...result,
+        turnId,
+        changedFiles,
+        durationMs: Date.now() - startedAt,
+        ...(this.usage ? { usage: this.usage } : {}),
+      };
+    } finally {
+      this.endTurn(turnId);
+    }
+  }
+
+  /** Run one send() call so its events carry their own turnId. */
+  async send(send: () => Promise<void>): Promise<void> {
+    const turnId = this.startTurn();
+    try {
+      await send();
+    } finally {
+      this.endTurn(turnId);
+    }
+  }
+
+  /**
+   * Start a call and yield the events it emits, then its result. Leaving the
+   * loop early stops listening but does not abort the call — use abort().
+   */
+  async *stream(execute: () => Promise<AgentResult>): AsyncGenerator<AgentStreamItem, void, undefined> {
+    const pending: AgentEvent[] = [];
+    let wake: (() => void) | undefined;
+    let settled = false;
+    let result: AgentResult | undefined;
+    let failure: unknown;
+
+    const listener = (event: AgentEvent): void => {
+      pending.push(event);
+      wake?.();
+    };
+    this.listeners.add(listener);
+
+    execute().then(
+      value => { result = value; },
+      (err: unknown) => { failure = err; },
+    ).finally(() => {
+      settled = true;
+      wake?.();
+    });
+
+    try {
+      while (true) {
+        const next = pending.shift();
+        if (next) {
+          yield next;
+          continue;
+        }
+        if (settled) break;
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = undefined;
+      }
+      if (!result) throw failure;
+      yield { type: 'result', result };
+    } finally {
+      this.listeners.delete(listener);
+    }
+  }
+
+  private startTurn(): string {
+    this.turnId = uuid();
+    return this.turnId;
+  }
+
+  /** Events that arrive between calls (late SDK notifications) carry no turnId. */
+  private endTurn(turnId: string): void {
+    if (this.turnId === turnId) this.turnId = undefined;
+  }
+
+  private record(event: AgentEvent): void {
+    const metadata = event.metadata;
+    if (event.type === 'usage' && metadata?.usage) {
+      this.usage = addUsage(this.usage, metadata.usage);
+      return;
+    }
+    if (metadata?.toolStatus === 'failed' && metadata.toolCallId) {
+      for (const [path, change] of this.files) {
+        if (change.toolCallId === metadata.toolCallId) this.files.delete(path);
+      }
+      return;
+    }
+    if (event.type !== 'file_write' || !metadata?.file) return;
+
+    const kind = metadata.changeKind ?? 'modified';
+    const previous = this.files.get(metadata.file);
+    if (!previous) {
+      this.files.set(metadata.file, { kind, toolCallId: metadata.toolCallId });
+    } else if (previous.kind === 'created' && kind === 'deleted') {
+      // Created and removed within one call: nothing changed on disk
+      this.files.delete(metadata.file);
+    } else {
+      this.files.set(metadata.file, {
+        kind: previous.kind === 'created' && kind === 'modified' ? 'created' : kind,
+        // Only the call that first touched the file may retract it
+        toolCallId: previous.toolCallId === metadata.toolCallId ? previous.toolCallId : undefined,
+      });
+    }
+  }
+}
+
+/** Sum two usage records, keeping optional counters only when either side reports them. */
+export function addUsage(total: AgentUsage | undefined, next: AgentUsage): AgentUsage {
+  if (!total) return { ...next };
+  const sum: AgentUsage = {
+    inputTokens: total.inputTokens + next.inputTokens,
+    outputTokens: total.outputTokens + next.outputTokens,
+  };
+  for (const key of ['cachedInputTokens', 'cacheWriteTokens', 'reasoningTokens', 'costUsd'] as const) {
+    if (total[key] !== undefined || next[key] !== undefined) {
+      sum[key] = (total[key] ?? 0) + (next[key] ?? 0);
+    }
+  }
+  return sum;
+}
+
+/** Format a usage record as the content line of a usage event. */
+export function describeUsage(usage: AgentUsage): string {
+  const cost = usage.costUsd !== undefined ? `, $${usage.costUsd.toFixed(4)}` : '';
+  return `Tokens: ${usage.inputTokens} in, ${usage.outputTokens} out${cost}`;
+}
@@ -0,0 +1,101 @@
+import { resolve } from 'node:path';
+import type { AgentPermissionRequest, AgentSessionConfig } from '../types/providers.js';
+import { isPathWithinBoundary } from './validation.js';
+
+/**
+ * Points paths under the original checkout (`repoPath`) at the session's
+ * worktree (`workingDirectory`), so an agent running in a git worktree edits
+ * the worktree rather than the main checkout.
+ */
+export interface WorktreeRewriter {
+  repoPath: string;
+  worktreePath: string;
+  /** Copy of a tool input with every checkout path rewritten; `changed` is false when nothing matched. */
+  rewrite<T>(value: T): { value: T; changed: boolean };
+  /** Why a permission request must be denied because it still targets the checkout, if it does. */
+  checkoutViolation(request: AgentPermissionRequest): string | undefined;
+}
+
+/** Whether the session runs in a worktree separate from its `repoPath` checkout. */
+export function isWorktreeSession(config: Pick<AgentSessionConfig, 'repoPath' | 'workingDirectory'>): boolean {
+  return Boolean(config.repoPath) && resolve(config.repoPath!) !== resolve(config.workingDirectory);
+}
+
+/** Rewriter for a session, or undefined when the session isn't running in a separate worktree. */
+export function createWorktreeRewriter(
+  config: Pick<AgentSessionConfig, 'repoPath' | 'workingDirectory'>,
+  logPrefix: string,
+): WorktreeRewriter | undefined {
+  if (!isWorktreeSession(config)) return undefined;
+  const repoPath = config.repoPath!.replace(/(.)\/+$/, '$1');
+  const worktreePath = config.workingDirectory.replace(/(.)\/+$/, '$1');
+
+  // Occurrences of repoPath that name the checkout itself — not `/x/repo`, not
+  // `/repo-other`, and not a worktree nested inside it (`/repo/.worktrees/x`)
+  const checkoutReferences = (text: string): number[] => {
+    const indexes: number[] = [];
+    for (let index = text.indexOf(repoPath); index !== -1; index = text.indexOf(repoPath, index + 1)) {
+      const previous = text[index - 1];
+      const next = text[index + repoPath.length];
+      if (previous !== undefined && /[\w./-]/.test(previous)) continue;
+      if (next !== undefined && /[\w.-]/.test(next)) continue;
+      if (text.startsWith(worktreePath, index)) continue;
+      indexes.push(index);
+    }
+    return indexes;
+  };
+
+  const rewriteString = (text: string): string => {
+    let rewritten = '';
+    let last = 0;
+    for (const index of checkoutReferences(text)) {
+      rewritten += text.slice(last, index) + worktreePath;
+      last = index + repoPath.length;
+    }
+    return last === 0 ? text : rewritten + text.slice(last);
+  };
+
+  return {
+    repoPath,
+    worktreePath,
+
+    rewrite<T>(value: T) {
+      let changed = false;
+      const visit = (val: unknown): unknown => {
+        if (typeof val === 'string') {
+          const rewritten = rewriteString(val);
+          if (rewritten === val) return val;
+          // Validate rewritten path stays within worktree boundary
+          if (rewritten.includes('..') && !isPathWithinBoundary(rewritten, worktreePath)) {
+            console.warn(`[${logPrefix}] blocked path traversal: ${rewritten}`);
+            return val;
+          }
+          changed = true;
+          return rewritten;
+        }
+        if (Array.isArray(val)) return val.map(visit);
+        if (val && typeof val === 'object') {
+          const obj: Record<string, unknown> = {};
+          for (const [key, entry] of Object.entries(val as Record<string, unknown>)) {
+            obj[key] = visit(entry);
+          }
+          return obj;
+        }
+        return val;
+      };
+      const rewritten = visit(value) as T;
+      return { value: changed ? rewritten : value, changed };
+    },
+
+    checkoutViolation(request) {
+      const path = request.paths
+        ?.map(item => resolve(worktreePath, item))
+        .find(item => isPathWithinBoundary(item, repoPath) && !isPathWithinBoundary(item, worktreePath));
+      if (path) return `${path} is in the main checkout; this session works in ${worktreePath}`;
+      if (request.command && checkoutReferences(request.command).length) {
+        return `Command references the main checkout ${repoPath}; this session works in ${worktreePath}`;
+      }
+      return undefined;
+    },
+  };
+}
@@ -1,5 +1,5 @@
 export type AgentType = 'copilot' | 'claude' | 'codex' | 'opencode' | 'hermes' | 'openclaw';
-export type AgentStatus = 'idle' | 'planning' | 'executing' | 'complete' | 'failed';
+export type AgentStatus = 'idle' | 'planning' | 'executing' | 'complete' | 'failed' | 'cancelled' | 'timed_out';
 
 export interface AgentInfo {
   name: AgentType;
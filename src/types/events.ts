@@ -11,10 +11,50 @@ export type AgentEventType =
   | 'output'
   | 'test_result'
   | 'error'
+  | 'usage'
+  | 'plan'
+  | 'subagent_start'
+  | 'subagent_end'
+  | 'cancelled'
   | 'complete';
 
+/** Lifecycle stage of a single tool invocation. */
+export type ToolCallStatus = 'started' | 'running' | 'completed' | 'failed';
+
+/** How a file_write event changed its file. */
+export type FileChangeKind = 'created' | 'modified' | 'deleted';
+
+/** Token and cost accounting normalized across SDKs. */
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the prompt cache */
+  cachedInputTokens?: number;
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number;
+  /** Output tokens spent on reasoning (included in outputTokens where the SDK reports both) */
+  reasoningTokens?: number;
+  /** Cost in US dollars, when the SDK reports one */
+  costUsd?: number;
+}
+
+/** Progress of one entry in the agent's plan. */
+export type PlanEntryStatus = 'pending' | 'in_progress' | 'completed';
+
+/** Relative importance of a plan entry, when the SDK reports one. */
+export type PlanEntryPriority = 'high' | 'medium' | 'low';
+
+/** One step of the agent's plan / todo list. */
+export interface AgentPlanEntry {
+  content: string;
+  status: PlanEntryStatus;
+  priority?: PlanEntryPriority;
+}
+
 export interface AgentEventMetadata {
   file?: string;
+  /** For file_write: how the file was changed, when the SDK reports it (default: modified) */
+  changeKind?: FileChangeKind;
   language?: string;
   command?: string;
   diff?: string;
@@ -27,6 +67,26 @@ export interface AgentEventMetadata {
   testsFailing?: number;
   /** For output deltas that replace the prior text snapshot instead of appending. */
   replace?: boolean;
+  /** Stable ID shared by every event belonging to the same tool invocation */
+  toolCallId?: string;
+  /** SDK-native name of the tool being invoked */
+  toolName?: string;
+  /** Lifecycle stage of the tool invocation this event reports */
+  toolStatus?: ToolCallStatus;
+  /** Epoch ms when the tool invocation started */
+  startedAt?: number;
+  /** Epoch ms when the tool invocation finished (completed/failed only) */
+  endedAt?: number;
+  /** For usage: tokens and cost consumed by one model call or turn */
+  usage?: AgentUsage;
+  /** For plan: the complete current plan, replacing any earlier snapshot */
+  plan?: AgentPlanEntry[];
+  /** toolCallId of the sub-agent this event was emitted inside; absent for the main agent */
+  parentId?: string;
+  /** Delegation depth: 0 for the main agent, 1 inside a sub-agent, 2 inside a sub-agent's sub-agent, … */
+  depth?: number;
+  /** For subagent_start/subagent_end: which agent the task was delegated to */
+  subagentName?: string;
 }
 
 export interface AgentEvent {
@@ -35,5 +95,9 @@ export interface AgentEvent {
   type: AgentEventType;
   content: string;
   timestamp: number;
+  /** ID of the execute()/send() call that produced the event (matches AgentResult.turnId) */
+  turnId?: string;
+  /** Position in the session's event sequence, increasing by one per event — use to restore order and drop duplicates */
+  seq?: number;
   metadata?: AgentEventMetadata;
 }
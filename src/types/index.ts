@@ -2,6 +2,12 @@ export type {
   AgentEvent,
   AgentEventType,
   AgentEventMetadata,
+  AgentUsage,
+  FileChangeKind,
+  ToolCallStatus,
+  AgentPlanEntry,
+  PlanEntryStatus,
+  PlanEntryPriority,
 } from './events.js';
 
 export type {
@@ -12,13 +18,43 @@ export type {
 
 export type {
   WSMessage,
+  ApprovalRequiredPayload,
+  ApprovalResponsePayload,
+  ApprovalResolvedPayload,
 } from './messages.js';
 
 export type {
   AgentProvider,
   AgentSession,
   AgentSessionConfig,
+  AgentSessionMode,
+  McpServerConfig,
+  ClaudeSessionOptions,
+  CodexSessionOptions,
   AgentSessionHooks,
+  AgentTool,
+  AgentToolContext,
+  AgentToolOutput,
+  AgentToolCall,
+  AgentToolResult,
+  AgentToolResultOverride,
+  AgentPermissionRequest,
+  AgentPermissionDecision,
+  PermissionPolicy,
+  PermissionPolicyAction,
+  PermissionPolicyDecision,
+  PermissionRule,
+  AuditedPermissionRule,
+  PermissionDecisionSource,
+  PermissionAuditEntry,
+  PermissionAuditSink,
+  PermissionAuditLog,
   AgentAttachment,
+  AgentFileChange,
+  AgentExecuteOptions,
+  AgentOutputSchema,
   AgentResult,
+  AgentStopReason,
+  AgentStreamItem,
+  AgentStreamResult,
 } from './providers.js';
@@ -1,5 +1,32 @@
+import type { AgentPermissionDecision, AgentPermissionRequest } from './providers.js';
+
 export interface WSMessage<T = unknown> {
   type: string;
   payload: T;
   timestamp?: number;
 }
+
+/** Payload of an `approval_required` message: a permission request waiting on a human. */
+export interface ApprovalRequiredPayload {
+  approvalId: string;
+  request: AgentPermissionRequest;
+  /** True when `request.rawInput` was too large to send and was left out */
+  rawInputOmitted?: boolean;
+  /** Epoch ms when the request falls back to the default decision (absent = never) */
+  expiresAt?: number;
+}
+
+/** Payload of an `approval_response` message sent back by a client. */
+export interface ApprovalResponsePayload {
+  approvalId: string;
+  decision: 'approve' | 'deny';
+  /** Passed back to the agent with a denial */
+  message?: string;
+}
+
+/** Payload of an `approval_resolved` message, so every client can drop the prompt. */
+export interface ApprovalResolvedPayload {
+  approvalId: string;
+  decision: AgentPermissionDecision;
+  resolvedBy: 'client' | 'timeout' | 'dispose' | 'undeliverable';
+}
@@ -1,9 +1,48 @@
 import type { AgentType } from './agents.js';
-import type { AgentEvent } from './events.js';
+import type { AgentEvent, AgentUsage, FileChangeKind } from './events.js';
+
+/**
+ * Why the agent stopped, normalized across SDKs:
+ * - `end_turn`: the agent finished its turn normally
+ * - `max_tokens` / `max_turns` / `max_budget`: a configured or model limit was hit
+ * - `refusal`: the model declined to continue
+ * - `cancelled`: the call was aborted by the consumer
+ * - `timed_out`: the call exceeded its `timeoutMs` and was cancelled
+ * - `error`: the SDK or agent reported a failure
+ */
+export type AgentStopReason =
+  | 'end_turn'
+  | 'max_tokens'
+  | 'max_turns'
+  | 'max_budget'
+  | 'refusal'
+  | 'cancelled'
+  | 'timed_out'
+  | 'error';
+
+export interface AgentFileChange {
+  path: string;
+  kind: FileChangeKind;
+}
 
 export interface AgentResult {
-  status: 'complete' | 'failed';
+  /** `cancelled` and `timed_out` mean the call was stopped on request, not that the agent failed */
+  status: 'complete' | 'failed' | 'cancelled' | 'timed_out';
   error?: string;
+  /** Why the agent stopped */
+  stopReason?: AgentStopReason;
+  /** Text of the agent's final assistant message */
+  finalMessage?: string;
+  /** ID stamped on every event this call emitted (AgentEvent.turnId) */
+  turnId?: string;
+  /** Files written during the call, one entry per path */
+  changedFiles?: AgentFileChange[];
+  /** Wall-clock duration of the call in milliseconds */
+  durationMs?: number;
+  /** Tokens and cost summed over every usage event emitted during the call */
+  usage?: AgentUsage;
+  /** Parsed output validated against `outputSchema`, when one was requested */
+  data?: unknown;
 }
 
 export interface AgentAttachment {
@@ -18,11 +57,269 @@ export interface AgentAttachment {
   mediaType?: string;
 }
 
+/** A tool call the agent needs permission to run, normalized across SDKs. */
+export interface AgentPermissionRequest {
+  /** Operation class: 'shell', 'write', 'read', 'url', 'mcp', or an SDK-specific kind */
+  kind: string;
+  /** SDK-native name of the tool, when the SDK reports one */
+  toolName?: string;
+  /** ID of the tool call asking for permission (matches the events' toolCallId) */
+  toolCallId?: string;
+  /** Full command line, for shell requests */
+  command?: string;
+  /** Files the call would read or write */
+  paths?: string[];
+  /** Network URLs the call would fetch */
+  urls?: string[];
+  /** The SDK's own description of the request (tool call title, stated intention) */
+  title?: string;
+  /** Tool input exactly as the SDK reported it */
+  rawInput?: unknown;
+  agentType: AgentType;
+  /** Provider session ID, once the SDK has assigned one */
+  sessionId: string | null;
+  contextId: string;
+  /** Set when a permission policy sent the request to the hook with an `ask` rule */
+  policy?: PermissionPolicyDecision;
+}
+
+export interface AgentPermissionDecision {
+  kind: 'approved' | 'denied-by-rules';
+  /** Why the call was allowed or denied — passed back to the agent on denial where the SDK supports it */
+  message?: string;
+}
+
+export type PermissionPolicyAction = 'allow' | 'deny' | 'ask';
+
+/**
+ * One rule of a permission policy. Every matcher the rule sets must match;
+ * a rule without matchers applies to every request.
+ */
+export interface PermissionRule {
+  action: PermissionPolicyAction;
+  /** Request kinds ('shell', 'write', 'read', 'url', 'mcp', …) */
+  kind?: string | string[];
+  /** SDK tool names, compared case-insensitively */
+  tool?: string | string[];
+  /** Regular expression (source string or RegExp) tested against the shell command */
+  command?: string | RegExp;
+  /**
+   * Globs (`*`, `**`, `?`) matched against the request's paths relative to
+   * workingDirectory; absolute globs match absolute paths. deny/ask rules
+   * match when any path matches, allow rules only when every path does.
+   */
+  paths?: string[];
+  /**
+   * Host globs (`github.com`, `*.npmjs.org`) or full-URL globs
+   * (`https://api.example.com/v1/**`), with the same any/every semantics as paths.
+   */
+  urls?: string[];
+  /** Shown in the decision explanation instead of the generated rule description */
+  reason?: string;
+}
+
+/** A policy rule as stored in an audit entry: a RegExp command keeps its source and flags */
+export type AuditedPermissionRule = Omit<PermissionRule, 'command'> & {
+  command?: string | { source: string; flags: string };
+};
+
+/**
+ * Declarative permission rules shared by every provider. Rules are not
+ * order-sensitive: a matching deny beats a matching ask, which beats a
+ * matching allow.
+ */
+export interface PermissionPolicy {
+  rules: PermissionRule[];
+  /** Action when no rule matches (default: 'ask') */
+  defaultAction?: PermissionPolicyAction;
+}
+
+export interface PermissionPolicyDecision {
+  action: PermissionPolicyAction;
+  /** The deciding rule; absent when the default action applied */
+  rule?: PermissionRule;
+  /** Human-readable explanation of why the action was chosen */
+  explanation: string;
+}
+
+/** What settled a permission request. */
+export type PermissionDecisionSource = 'mode' | 'worktree' | 'deny-list' | 'policy' | 'hook' | 'fallback';
+
+/**
+ * How much a session may change. `plan` is read-only: the agent can inspect
+ * and propose but never writes files or runs shell commands. `edit` lets it
+ * edit the working directory; `full` removes the provider's own guard rails.
+ */
+export type AgentSessionMode = 'plan' | 'edit' | 'full';
+
+/** One permission request and its decision, as appended to an audit log. */
+export interface PermissionAuditEntry {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  timestamp: number;
+  contextId: string;
+  sessionId: string | null;
+  agentType: AgentType;
+  kind: string;
+  toolName?: string;
+  toolCallId?: string;
+  command?: string;
+  paths?: string[];
+  urls?: string[];
+  /** The tool's arguments (the request's rawInput) */
+  input?: unknown;
+  decision: AgentPermissionDecision['kind'];
+  message?: string;
+  decidedBy: PermissionDecisionSource;
+  /** Policy rule that allowed, denied or escalated the call */
+  rule?: AuditedPermissionRule;
+  /** `hash` of the previous entry (64 zeros for the first), chaining entries so edits are detectable */
+  prevHash: string;
+  /** SHA-256 of this entry without `hash` */
+  hash: string;
+}
+
+/** Where audit entries are stored. */
+export interface PermissionAuditSink {
+  append(entry: PermissionAuditEntry): void | Promise<void>;
+  /** Last stored entry, so a new log continues the existing chain */
+  last?(): PermissionAuditEntry | undefined | Promise<PermissionAuditEntry | undefined>;
+}
+
+export interface PermissionAuditLog {
+  /** Append a decided request; rejects if the sink fails */
+  record(record: {
+    request: AgentPermissionRequest;
+    decision: AgentPermissionDecision;
+    decidedBy: PermissionDecisionSource;
+    rule?: PermissionRule;
+  }): Promise<PermissionAuditEntry>;
+}
+
+/** A finished tool call, as passed to onPostToolUse. */
+export interface AgentToolCall {
+  toolName: string;
+  toolCallId?: string;
+  /** The tool's arguments, as the SDK reported them */
+  input?: unknown;
+  agentType: AgentType;
+  sessionId: string | null;
+  contextId: string;
+}
+
+/** Normalized outcome of a tool call. */
+export interface AgentToolResult {
+  /** Output as text (the error message when isError is true) */
+  output: string;
+  isError: boolean;
+  /** The SDK's native result, for fields `output` doesn't cover */
+  rawOutput?: unknown;
+}
+
+/** Changes onPostToolUse may make before the model sees a tool result. */
+export interface AgentToolResultOverride {
+  /** Replaces the output of a successful call (e.g., with secrets redacted) */
+  output?: string;
+  /** Extra context for the model, e.g. lint results after an edit */
+  additionalContext?: string;
+}
+
 export interface AgentSessionHooks {
   /** Intercept tool calls before execution (e.g., worktree path rewriting) */
   onPreToolUse?: (input: unknown) => unknown;
-  /** Handle permission requests (e.g., deny-lists) */
-  onPermissionRequest?: (request: { kind: string }) => { kind: 'approved' | 'denied-by-rules' };
+  /**
+   * Decide whether a tool call may run (e.g., deny-lists, asking a human, a
+   * policy service). The agent waits while a returned promise is pending.
+   */
+  onPermissionRequest?: (request: AgentPermissionRequest) => AgentPermissionDecision | Promise<AgentPermissionDecision>;
+  /**
+   * Observe a tool result and optionally rewrite it. Claude Code and Copilot
+   * wait for the hook and apply the override; on other providers the result
+   * has already reached the model, so the hook can only observe.
+   */
+  onPostToolUse?: (
+    toolCall: AgentToolCall,
+    result: AgentToolResult,
+  ) => AgentToolResultOverride | void | Promise<AgentToolResultOverride | void>;
+}
+
+/** Who is calling a custom tool. */
+export interface AgentToolContext {
+  agentType: AgentType;
+  sessionId: string | null;
+  contextId: string;
+  /** The SDK's ID for the call, when it reports one */
+  toolCallId?: string;
+}
+
+/** What a custom tool returns: text for the model, or a failure to report to it. */
+export type AgentToolOutput = string | { output: string; isError?: boolean };
+
+/**
+ * A tool defined once and offered to any agent: Copilot through its tools
+ * API, Claude Code through an in-process MCP server, and OpenCode and ACP
+ * agents through a local MCP server.
+ */
+export interface AgentTool {
+  /** Letters, digits, `_` and `-` */
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments, an object schema (default: no arguments) */
+  inputSchema?: Record<string, unknown>;
+  /** Runs the tool; a thrown error is reported to the model as a failed call */
+  handler: (args: Record<string, unknown>, context: AgentToolContext) => AgentToolOutput | Promise<AgentToolOutput>;
+}
+
+/**
+ * An MCP server the agent starts (stdio) or connects to (http, sse). Each
+ * provider translates it into its SDK's own format.
+ */
+export type McpServerConfig =
+  | {
+      type?: 'stdio';
+      command: string;
+      args?: string[];
+      /** Passed on top of a scrubbed baseline (PATH, HOME, …) rather than this process's full environment */
+      env?: Record<string, string>;
+    }
+  | { type: 'http' | 'sse'; url: string; headers?: Record<string, string> };
+
+/**
+ * Claude Code settings. Set them on ClaudeProviderOptions for every session,
+ * or on AgentSessionConfig.claude to add to or override them for one session.
+ */
+export interface ClaudeSessionOptions {
+  /** MCP servers by name; a session's server replaces the provider's of the same name */
+  mcpServers?: Record<string, McpServerConfig>;
+  /**
+   * Tools that run without a permission check (e.g., `Read`, `Bash(npm test:*)`,
+   * `mcp__docs__search`). In plan mode write and shell tools are left out.
+   */
+  allowedTools?: string[];
+  /** Tools Claude may not use; a session's list adds to the provider's */
+  disallowedTools?: string[];
+  /** Directories Claude may access besides workingDirectory; relative paths resolve against it */
+  additionalDirectories?: string[];
+  /** Stop after this many agentic turns */
+  maxTurns?: number;
+}
+
+/**
+ * Codex thread settings. Set them on CodexProviderOptions for every session,
+ * or on AgentSessionConfig.codex to override them for one session.
+ */
+export interface CodexSessionOptions {
+  /** Sandbox for commands and edits (default: 'workspace-write', or as set by `mode`) */
+  sandboxMode?: 'read-only' | 'workspace-write' | 'danger-full-access';
+  /** When Codex stops to ask before running a command (default: the Codex CLI's) */
+  approvalPolicy?: 'never' | 'on-request' | 'on-failure' | 'untrusted';
+  /** Allow network access from the workspace-write sandbox (e.g., package installs) */
+  networkAccessEnabled?: boolean;
+  modelReasoningEffort?: 'minimal' | 'low' | 'medium' | 'high' | 'xhigh';
+  /** Directories writable besides workingDirectory; relative paths resolve against it */
+  additionalDirectories?: string[];
+  /** Run outside a git repository (default: true) */
+  skipGitRepoCheck?: boolean;
 }
 
 export interface AgentSessionConfig {
@@ -30,7 +327,7 @@ export interface AgentSessionConfig {
   workingDirectory: string;
   systemPrompt: string;
   onEvent: (event: AgentEvent) => void;
-  /** Original repo path — used for worktree path rewriting */
+  /** Original repo path — used for worktree path rewriting (Copilot, Claude Code); ACP agents and OpenCode reject worktree sessions */
   repoPath?: string;
   /** Resume a previous session by ID */
   resumeSessionId?: string;
@@ -38,12 +335,75 @@ export interface AgentSessionConfig {
   attachments?: AgentAttachment[];
   /** Optional hooks for middleware injection */
   hooks?: AgentSessionHooks;
+  /** Custom tools the agent may call (not supported by Codex or the OpenClaw gateway) */
+  tools?: AgentTool[];
+  /** MCP servers by name, available on every provider but the OpenClaw gateway */
+  mcpServers?: Record<string, McpServerConfig>;
+  /**
+   * Session mode, mapped to each provider's own mechanism (Claude permission
+   * mode, Codex sandbox, ACP session mode, OpenCode agent). In `plan` mode
+   * write and shell permission requests are also denied on every provider.
+   * Unset keeps the provider's default.
+   */
+  mode?: AgentSessionMode;
+  /** Claude Code settings for this session, over the provider's; other providers ignore them */
+  claude?: ClaudeSessionOptions;
+  /** Codex thread settings for this session, over the provider's; other providers ignore them */
+  codex?: CodexSessionOptions;
+  /**
+   * Permission rules applied before onPermissionRequest: allow and deny are
+   * decided by the policy, ask goes to the hook (denied when there is none).
+   */
+  permissionPolicy?: PermissionPolicy;
+  /**
+   * Records every permission request and decision. A call whose decision
+   * can't be recorded is denied. Claude Code rejects it, like
+   * permissionPolicy, with mode `full`, which never asks.
+   */
+  permissionAudit?: PermissionAuditLog;
+}
+
+/** A JSON Schema document describing the structured output an agent must return. */
+export type AgentOutputSchema = Record<string, unknown>;
+
+/** Per-call options for execute(), stream(), and send(). */
+export interface AgentExecuteOptions {
+  /** File/image attachments for this message, merged after config-level attachments */
+  attachments?: AgentAttachment[];
+  /** Cancels the underlying SDK call when aborted */
+  signal?: AbortSignal;
+  /** Cancels the underlying SDK call after this many milliseconds */
+  timeoutMs?: number;
+  /**
+   * Require the agent to end with JSON matching this schema, returned parsed in
+   * `AgentResult.data`. Ignored by send().
+   */
+  outputSchema?: AgentOutputSchema;
 }
 
+/** Terminal item of a session stream, carrying the call's result. */
+export interface AgentStreamResult {
+  type: 'result';
+  result: AgentResult;
+}
+
+/** Items yielded by AgentSession.stream(): every event of the call, then its result. */
+export type AgentStreamItem = AgentEvent | AgentStreamResult;
+
 export interface AgentSession {
-  execute(prompt: string, attachments?: AgentAttachment[]): Promise<AgentResult>;
+  /**
+   * Run a prompt. Pass options (or, for compatibility, an attachments array);
+   * a fired signal or timeout cancels the SDK call and resolves with stopReason
+   * `cancelled` or `timed_out`.
+   */
+  execute(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<AgentResult>;
+  /**
+   * Run a prompt like execute(), yielding its events as they arrive and ending
+   * with a `{ type: 'result' }` item. Events are still delivered to onEvent.
+   */
+  stream(prompt: string, options?: AgentExecuteOptions | AgentAttachment[]): AsyncIterable<AgentStreamItem>;
   /** Send a follow-up message to a running agent session */
-  send(message: string, attachments?: AgentAttachment[]): Promise<void>;
+  send(message: string, options?: AgentExecuteOptions | AgentAttachment[]): Promise<void>;
   abort(): Promise<void>;
   destroy(): Promise<void>;
   readonly sessionId: string | null;
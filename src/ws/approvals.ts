@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import { WebSocket, type WebSocketServer } from 'ws';
+import type {
+  ApprovalRequiredPayload,
+  ApprovalResolvedPayload,
+  ApprovalResponsePayload,
+  WSMessage,
+} from '../types/messages.js';
+import type { AgentPermissionDecision, AgentPermissionRequest } from '../types/providers.js';
+import { broadcast } from './server.js';
+import { sanitizeJson } from './sanitize.js';
+import { isObject } from '../providers/guards.js';
+
+export const APPROVAL_REQUIRED = 'approval_required';
+export const APPROVAL_RESPONSE = 'approval_response';
+export const APPROVAL_RESOLVED = 'approval_resolved';
+
+/** Largest serialized `rawInput` sent to clients; larger ones are left out of `approval_required` */
+const MAX_RAW_INPUT_SIZE = 64 * 1024;
+
+export interface ApprovalQueueOptions {
+  /** Server whose clients are asked (e.g. from createWSServer) */
+  wss: WebSocketServer;
+  /** How long to wait for a reply before using defaultDecision (default: 300000, 0 = wait forever) */
+  timeoutMs?: number;
+  /** Decision used on timeout or dispose (default: denied with a timeout message) */
+  defaultDecision?: AgentPermissionDecision;
+  /** Return false to ignore a reply from this client (e.g. a read-only viewer) */
+  authorize?: (ws: WebSocket, response: ApprovalResponsePayload) => boolean;
+}
+
+export interface ApprovalQueue {
+  /** Permission hook to pass as `hooks.onPermissionRequest` */
+  onPermissionRequest: (request: AgentPermissionRequest) => Promise<AgentPermissionDecision>;
+  /** Requests still waiting on a reply */
+  pending(): ApprovalRequiredPayload[];
+  /** Stop listening and settle every pending request with the default decision */
+  dispose(): void;
+}
+
+interface PendingApproval {
+  payload: ApprovalRequiredPayload;
+  resolve: (decision: AgentPermissionDecision) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Park permission requests until a WebSocket client approves or denies them.
+ * Each request is broadcast as `approval_required`; the first valid
+ * `approval_response` settles it and `approval_resolved` tells every client.
+ * Clients that connect later are sent the requests still pending.
+ */
+export function createApprovalQueue(options: ApprovalQueueOptions): ApprovalQueue {
+  const {
+    wss,
+    timeoutMs = 300_000,
+    defaultDecision = { kind: 'denied-by-rules', message: 'Approval request timed out' },
+    authorize,
+  } = options;
+  const approvals = new Map<string, PendingApproval>();
+  const listeners = new Map<WebSocket, (raw: unknown) => void>();
+  let disposed = false;
+
+  const settle = (approvalId: string, decision: AgentPermissionDecision, resolvedBy: ApprovalResolvedPayload['resolvedBy']) => {
+    const approval = approvals.get(approvalId);
+    if (!approval) return;
+    approvals.delete(approvalId);
+    if (approval.timer) clearTimeout(approval.timer);
+    broadcast<ApprovalResolvedPayload>(wss, {
+      type: APPROVAL_RESOLVED,
+      payload: { approvalId, decision, resolvedBy },
+      timestamp: Date.now(),
+    });
+    approval.resolve(decision);
+  };
+
+  const onMessage = (ws: WebSocket, raw: unknown) => {
+    let message: unknown;
+    try {
+      message = sanitizeJson(JSON.parse(String(raw)));
+    } catch {
+      return;
+    }
+    const response = readResponse(message);
+    if (!response || !approvals.has(response.approvalId)) return;
+    if (authorize && !authorize(ws, response)) return;
+    settle(
+      response.approvalId,
+      response.decision === 'approve'
+        ? { kind: 'approved' }
+        : { kind: 'denied-by-rules', ...(response.message ? { message: response.message } : {}) },
+      'client',
+    );
+  };
+
+  const listen = (ws: WebSocket) => {
+    const listener = (raw: unknown) => onMessage(ws, raw);
+    listeners.set(ws, listener);
+    ws.on('message', listener);
+    ws.once('close', () => listeners.delete(ws));
+    for (const approval of approvals.values()) sendTo(ws, toRequiredMessage(approval.payload));
+  };
+
+  wss.clients.forEach(listen);
+  wss.on('connection', listen);
+
+  return {
+    onPermissionRequest: request => {
+      if (disposed) return Promise.resolve(defaultDecision);
+      const approvalId = randomUUID();
+      const payload: ApprovalRequiredPayload = {
+        approvalId,
+        ...withoutLargeRawInput(request),
+        ...(timeoutMs > 0 ? { expiresAt: Date.now() + timeoutMs } : {}),
+      };
+      return new Promise(resolve => {
+        const timer = timeoutMs > 0 ? setTimeout(() => settle(approvalId, defaultDecision, 'timeout'), timeoutMs) : null;
+        approvals.set(approvalId, { payload, resolve, timer });
+        // No client can answer a request that was too large to send
+        if (!broadcast(wss, toRequiredMessage(payload))) settle(approvalId, defaultDecision, 'undeliverable');
+      });
+    },
+
+    pending: () => [...approvals.values()].map(approval => approval.payload),
+
+    dispose: () => {
+      if (disposed) return;
+      disposed = true;
+      wss.off('connection', listen);
+      for (const [ws, listener] of listeners) ws.off('message', listener);
+      listeners.clear();
+      for (const approvalId of [...approvals.keys()]) settle(approvalId, defaultDecision, 'dispose');
+    },
+  };
+}
+
+function toRequiredMessage(payload: ApprovalRequiredPayload): WSMessage<ApprovalRequiredPayload> {
+  return { type: APPROVAL_REQUIRED, payload, timestamp: Date.now() };
+}
+
+/** Request as sent to clients, leaving out a `rawInput` too large to broadcast (e.g. a large Write). */
+function withoutLargeRawInput(request: AgentPermissionRequest): Pick<ApprovalRequiredPayload, 'request' | 'rawInputOmitted'> {
+  if (request.rawInput === undefined) return { request };
+  let size: number;
+  try {
+    size = JSON.stringify(request.rawInput)?.length ?? 0;
+  } catch {
+    size = Infinity;
+  }
+  if (size <= MAX_RAW_INPUT_SIZE) return { request };
+  const { rawInput: _rawInput, ...rest } = request;
+  return { request: rest, rawInputOmitted: true };
+}
+
+function sendTo(ws: WebSocket, message: WSMessage): void {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+}
+
+function readResponse(message: unknown): ApprovalResponsePayload | undefined {
+  if (!isObject(message) || message.type !== APPROVAL_RESPONSE || !isObject(message.payload)) return undefined;
+  const { approvalId, decision, message: text } = message.payload;
+  if (typeof approvalId !== 'string' || (decision !== 'approve' && decision !== 'deny')) return undefined;
+  return { approvalId, decision, ...(typeof text === 'string' ? { message: text } : {}) };
+}
@@ -1,6 +1,8 @@
 export { createHeartbeat, broadcast, createWSServer } from './server.js';
 export { WSClient } from './client.js';
 export { sanitizeJson } from './sanitize.js';
+export { createApprovalQueue, APPROVAL_REQUIRED, APPROVAL_RESPONSE, APPROVAL_RESOLVED } from './approvals.js';
 
 export type { WSClientMessageHandler, WSClientOptions } from './client.js';
 export type { WSServerOptions } from './server.js';
+export type { ApprovalQueue, ApprovalQueueOptions } from './approvals.js';
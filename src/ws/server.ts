@@ -59,19 +59,21 @@ export function createHeartbeat(wss: WebSocketServer, intervalMs = 30_000): () =
 
 /**
  * Broadcast a WSMessage to all connected clients in OPEN state.
- * Messages exceeding 1MB are rejected with a warning.
+ * Messages exceeding 1MB are rejected with a warning; returns false when
+ * the message was rejected.
  */
-export function broadcast<T>(wss: WebSocketServer, message: WSMessage<T>): void {
+export function broadcast<T>(wss: WebSocketServer, message: WSMessage<T>): boolean {
   const data = JSON.stringify(message);
   if (data.length > MAX_BROADCAST_SIZE) {
     console.warn(`[ws-server] broadcast message too large (${(data.length / 1024).toFixed(0)}KB), skipping`);
-    return;
+    return false;
   }
   wss.clients.forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
       client.send(data);
     }
   });
+  return true;
 }
 
 /**
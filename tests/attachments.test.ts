@@ -1,7 +1,7 @@
 import { describe, it, beforeEach } from 'node:test';
 import assert from 'node:assert/strict';
 import type { AgentEvent } from '../src/types/events.ts';
-import type { AgentAttachment } from '../src/types/providers.ts';
+import type { AgentAttachment, AgentPermissionRequest } from '../src/types/providers.ts';
 
 // ── Shared fixtures ──
 
@@ -60,8 +60,9 @@ describe('CopilotProvider image attachments', () => {
 
   async function capturePermissionHandler(
     permissionDecision: 'approved' | 'denied-by-rules',
-  ): Promise<(req: { kind: string }) => unknown> {
-    let permissionHandler: ((req: { kind: string }) => unknown) | undefined;
+    onRequest: (request: AgentPermissionRequest) => void = () => {},
+  ): Promise<(req: Record<string, unknown>, invocation: { sessionId: string }) => Promise<unknown>> {
+    let permissionHandler: ((req: Record<string, unknown>, invocation: { sessionId: string }) => Promise<unknown>) | undefined;
     (provider as any).client = {
       createSession: async (config: any) => {
         permissionHandler = config.onPermissionRequest;
@@ -82,7 +83,10 @@ describe('CopilotProvider image attachments', () => {
       systemPrompt: 'test',
       onEvent: () => {},
       hooks: {
-        onPermissionRequest: () => ({ kind: permissionDecision }),
+        onPermissionRequest: request => {
+          onRequest(request);
+          return { kind: permissionDecision };
+        },
       },
     });
 
@@ -272,12 +276,64 @@ describe('CopilotProvider image attachments', () => {
 
   it('should map legacy approved permission hooks to Copilot SDK approve-once decisions', async () => {
     const permissionHandler = await capturePermissionHandler('approved');
-    assert.deepEqual(permissionHandler({ kind: 'shell' }), { kind: 'approve-once' });
+    assert.deepEqual(await permissionHandler({ kind: 'shell' }, { sessionId: 's' }), { kind: 'approve-once' });
   });
 
   it('should map legacy denied permission hooks to Copilot SDK reject decisions', async () => {
     const permissionHandler = await capturePermissionHandler('denied-by-rules');
-    assert.deepEqual(permissionHandler({ kind: 'shell' }), { kind: 'reject' });
+    assert.deepEqual(await permissionHandler({ kind: 'shell' }, { sessionId: 's' }), { kind: 'reject' });
+  });
+
+  it('should pass the permission hook a normalized request', async () => {
+    const requests: AgentPermissionRequest[] = [];
+    const permissionHandler = await capturePermissionHandler('approved', request => requests.push(request));
+
+    await permissionHandler({
+      kind: 'shell',
+      toolCallId: 'call-1',
+      fullCommandText: 'git push --force',
+      intention: 'Push the branch',
+      possiblePaths: ['/tmp/repo'],
+      commands: [],
+      possibleUrls: [],
+      canOfferSessionApproval: false,
+      hasWriteFileRedirection: false,
+    }, { sessionId: 'copilot-1' });
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].kind, 'shell');
+    assert.equal(requests[0].command, 'git push --force');
+    assert.deepEqual(requests[0].paths, ['/tmp/repo']);
+    assert.equal(requests[0].title, 'Push the branch');
+    assert.equal(requests[0].toolCallId, 'call-1');
+    assert.equal(requests[0].agentType, 'copilot');
+    assert.equal(requests[0].sessionId, 'copilot-1');
+    assert.equal(requests[0].contextId, 'test-ctx');
+  });
+
+  it('should audit requests rejected by the deny-list', async () => {
+    const { CopilotProvider } = await import('../src/providers/copilot.ts');
+    const denyingProvider = new CopilotProvider({ deniedTools: 'shell' });
+    let permissionHandler: ((req: Record<string, unknown>, invocation: { sessionId: string }) => Promise<unknown>) | undefined;
+    (denyingProvider as any).client = {
+      createSession: async (config: any) => {
+        permissionHandler = config.onPermissionRequest;
+        return { sessionId: 'mock-copilot-session', on: () => () => {}, disconnect: async () => {} };
+      },
+    };
+    const recorded: Array<{ decidedBy: string; decision: { kind: string } }> = [];
+    await denyingProvider.createSession({
+      contextId: 'test-ctx',
+      workingDirectory: '/tmp',
+      systemPrompt: 'test',
+      onEvent: () => {},
+      permissionAudit: { record: async record => { recorded.push(record); return {} as never; } },
+    });
+
+    assert.deepEqual(await permissionHandler!({ kind: 'shell', fullCommandText: 'rm -rf /' }, { sessionId: 'copilot-1' }), { kind: 'reject' });
+    assert.equal(recorded.length, 1);
+    assert.equal(recorded[0].decidedBy, 'deny-list');
+    assert.equal(recorded[0].decision.kind, 'denied-by-rules');
   });
 });
 
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AUDIT_GENESIS_HASH,
+  createPermissionAuditLog,
+  readPermissionAuditLog,
+  verifyPermissionAuditLog,
+} from '../src/providers/audit.ts';
+import { askPermission } from '../src/providers/permissions.ts';
+import type { AgentPermissionRequest, PermissionAuditEntry } from '../src/types/providers.ts';
+
+const request: AgentPermissionRequest = {
+  kind: 'shell',
+  toolName: 'Bash',
+  toolCallId: 'tc-1',
+  command: 'git push',
+  rawInput: { command: 'git push' },
+  agentType: 'claude',
+  sessionId: 's-1',
+  contextId: 'ctx-1',
+};
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), 'audit-test-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+describe('createPermissionAuditLog', () => {
+  it('should append hash-chained entries to a JSONL file', async () => {
+    await withTempDir(async dir => {
+      const file = join(dir, 'audit.jsonl');
+      const log = createPermissionAuditLog({ file });
+      await Promise.all([
+        log.record({ request, decision: { kind: 'approved' }, decidedBy: 'hook' }),
+        log.record({
+          request: { ...request, toolCallId: 'tc-2', command: 'rm -rf /' },
+          decision: { kind: 'denied-by-rules', message: 'Denied by policy rule 1: rm' },
+          decidedBy: 'policy',
+          rule: { action: 'deny', command: /rm -rf/i },
+        }),
+      ]);
+
+      const entries = await readPermissionAuditLog(file);
+      assert.equal(entries.length, 2);
+      assert.equal(entries[0].seq, 1);
+      assert.equal(entries[0].prevHash, AUDIT_GENESIS_HASH);
+      assert.equal(entries[0].toolName, 'Bash');
+      assert.deepEqual(entries[0].input, { command: 'git push' });
+      assert.equal(entries[0].decision, 'approved');
+      assert.equal(entries[0].decidedBy, 'hook');
+      assert.equal(entries[1].prevHash, entries[0].hash);
+      assert.deepEqual(entries[1].rule, { action: 'deny', command: { source: 'rm -rf', flags: 'i' } });
+      assert.deepEqual(verifyPermissionAuditLog(entries), { valid: true });
+
+      // A new log on the same file continues the chain
+      await createPermissionAuditLog({ file }).record({ request, decision: { kind: 'approved' }, decidedBy: 'fallback' });
+      const continued = await readPermissionAuditLog(file);
+      assert.equal(continued[2].seq, 3);
+      assert.deepEqual(verifyPermissionAuditLog(continued), { valid: true });
+    });
+  });
+
+  it('should detect edited, removed and reordered entries', async () => {
+    await withTempDir(async dir => {
+      const file = join(dir, 'audit.jsonl');
+      const log = createPermissionAuditLog({ file });
+      for (const decidedBy of ['hook', 'policy', 'fallback'] as const) {
+        await log.record({ request, decision: { kind: 'denied-by-rules' }, decidedBy });
+      }
+      const entries = await readPermissionAuditLog(file);
+
+      const edited = entries.map(entry => (entry.seq === 2 ? { ...entry, decision: 'approved' as const } : entry));
+      assert.deepEqual(verifyPermissionAuditLog(edited), { valid: false, seq: 2, reason: 'hash does not match the entry contents' });
+      assert.equal(verifyPermissionAuditLog([entries[0], entries[2]]).valid, false);
+      assert.equal(verifyPermissionAuditLog([entries[1], entries[0], entries[2]]).valid, false);
+
+      await writeFile(file, (await readFile(file, 'utf8')).replace('"decision":"denied-by-rules"', '"decision":"approved"'));
+      assert.equal(verifyPermissionAuditLog(await readPermissionAuditLog(file)).valid, false);
+    });
+  });
+
+  it('should write to a custom sink and not advance the chain when it fails', async () => {
+    const stored: PermissionAuditEntry[] = [];
+    let fail = true;
+    const log = createPermissionAuditLog({
+      sink: {
+        append: entry => {
+          if (fail) throw new Error('disk full');
+          stored.push(entry);
+        },
+      },
+    });
+
+    await assert.rejects(log.record({ request, decision: { kind: 'approved' }, decidedBy: 'hook' }), /disk full/);
+    fail = false;
+    await log.record({ request, decision: { kind: 'approved' }, decidedBy: 'hook' });
+    assert.equal(stored[0].seq, 1);
+    assert.equal(stored[0].prevHash, AUDIT_GENESIS_HASH);
+    assert.throws(() => createPermissionAuditLog({}), /requires a file or a sink/);
+  });
+});
+
+describe('askPermission auditing', () => {
+  it('should record the deciding source and deny when the audit fails', async () => {
+    const stored: PermissionAuditEntry[] = [];
+    const permissionAudit = createPermissionAuditLog({ sink: { append: entry => { stored.push(entry); } } });
+    const config = {
+      workingDirectory: '/work/app',
+      permissionPolicy: { rules: [{ action: 'allow' as const, kind: 'shell', command: '^git ' }] },
+      permissionAudit,
+    };
+
+    assert.equal((await askPermission(config, request, { kind: 'denied-by-rules' })).kind, 'approved');
+    assert.equal(stored[0].decidedBy, 'policy');
+    assert.deepEqual(stored[0].rule, { action: 'allow', kind: 'shell', command: '^git ' });
+
+    const failing = createPermissionAuditLog({ sink: { append: () => { throw new Error('sink offline'); } } });
+    assert.deepEqual(await askPermission({ ...config, permissionAudit: failing }, request, { kind: 'approved' }), {
+      kind: 'denied-by-rules',
+      message: 'Permission audit failed: sink offline',
+    });
+  });
+});
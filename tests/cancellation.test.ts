@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveExecuteOptions, runCancellable, sendCancellable } from '../src/providers/cancellation.ts';
+import type { AgentResult } from '../src/types/providers.ts';
+
+/** A fake SDK call that settles only once cancel() is invoked */
+function cancellableCall(): { cancel: () => Promise<void>; run: () => Promise<AgentResult>; cancelled: () => number } {
+  let calls = 0;
+  let settle!: (result: AgentResult) => void;
+  return {
+    cancel: async () => {
+      calls++;
+      settle({ status: 'failed', error: 'SDK interrupted', finalMessage: 'partial' });
+    },
+    run: () => new Promise<AgentResult>(resolve => { settle = resolve; }),
+    cancelled: () => calls,
+  };
+}
+
+describe('resolveExecuteOptions', () => {
+  it('should accept a bare attachments array for compatibility', () => {
+    const attachments = [{ type: 'file' as const, path: '/tmp/a.txt' }];
+    assert.deepEqual(resolveExecuteOptions(attachments), { attachments });
+    assert.deepEqual(resolveExecuteOptions(undefined), {});
+    assert.deepEqual(resolveExecuteOptions({ timeoutMs: 5 }), { timeoutMs: 5 });
+  });
+});
+
+describe('runCancellable', () => {
+  it('should pass the result through when nothing fires', async () => {
+    const result = await runCancellable({ timeoutMs: 1_000 }, async () => {}, async () => ({ status: 'complete' }));
+    assert.deepEqual(result, { status: 'complete' });
+  });
+
+  it('should cancel the call and report timed_out when timeoutMs elapses', async () => {
+    const call = cancellableCall();
+    const result = await runCancellable({ timeoutMs: 10 }, call.cancel, call.run);
+
+    assert.equal(call.cancelled(), 1);
+    assert.equal(result.status, 'timed_out');
+    assert.equal(result.stopReason, 'timed_out');
+    assert.equal(result.error, 'Execution timed out after 10ms');
+    assert.equal(result.finalMessage, 'partial', 'fields the call did report are kept');
+  });
+
+  it('should cancel the call and report cancelled when the signal aborts', async () => {
+    const call = cancellableCall();
+    const controller = new AbortController();
+    const pending = runCancellable({ signal: controller.signal }, call.cancel, call.run);
+    controller.abort();
+
+    const result = await pending;
+    assert.equal(call.cancelled(), 1);
+    assert.deepEqual(result, { status: 'cancelled', stopReason: 'cancelled', finalMessage: 'partial' });
+  });
+
+  it('should not start the call when the signal is already aborted', async () => {
+    let started = false;
+    const result = await runCancellable({ signal: AbortSignal.abort() }, async () => {}, async () => {
+      started = true;
+      return { status: 'complete' };
+    });
+
+    assert.equal(started, false);
+    assert.equal(result.stopReason, 'cancelled');
+  });
+
+  it('should report a rejection after cancellation as the cancellation', async () => {
+    const controller = new AbortController();
+    let reject!: (err: Error) => void;
+    const pending = runCancellable(
+      { signal: controller.signal },
+      async () => reject(new Error('AbortError')),
+      () => new Promise<AgentResult>((_resolve, fail) => { reject = fail; }),
+    );
+    controller.abort();
+
+    assert.equal((await pending).stopReason, 'cancelled');
+  });
+
+  it('should rethrow failures that were not caused by cancellation', async () => {
+    await assert.rejects(
+      runCancellable({ timeoutMs: 1_000 }, async () => {}, async () => { throw new Error('boom'); }),
+      /boom/,
+    );
+  });
+});
+
+describe('sendCancellable', () => {
+  it('should resolve once the cancelled send settles', async () => {
+    const call = cancellableCall();
+    await sendCancellable({ timeoutMs: 10 }, call.cancel, async () => { await call.run(); });
+    assert.equal(call.cancelled(), 1);
+  });
+});
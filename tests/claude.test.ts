@@ -0,0 +1,397 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { createPermissionAuditLog } from '../src/providers/audit.ts';
+import { ClaudeProvider, buildClaudeSessionOptions } from '../src/providers/claude.ts';
+import type { AgentEvent } from '../src/types/events.ts';
+import { FakeClaudeProcess, createScriptedClaudeProcess, resultMessage } from './helpers/claude.ts';
+
+async function runScripted(fake: FakeClaudeProcess): Promise<AgentEvent[]> {
+  const provider = new ClaudeProvider({ spawnClaudeCodeProcess: () => fake as never });
+  const events: AgentEvent[] = [];
+  const session = await provider.createSession({
+    contextId: 'ctx-claude',
+    workingDirectory: '/work/app',
+    systemPrompt: '',
+    onEvent: event => events.push(event),
+  });
+  const result = await session.execute('go');
+  assert.equal(result.status, 'complete');
+  return events;
+}
+
+describe('ClaudeProvider message mapping', () => {
+  it('should map thinking, tool_use and tool_result blocks', async () => {
+    const events = await runScripted(createScriptedClaudeProcess('sess-map', [
+      {
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'thinking', thinking: 'The tests live under tests/', signature: 'sig' },
+            { type: 'tool_use', id: 'tu-read', name: 'Read', input: { file_path: '/work/app/src/a.ts' } },
+            { type: 'tool_use', id: 'tu-edit', name: 'Edit', input: { file_path: '/work/app/src/a.ts', old_string: 'a', new_string: 'b' } },
+            { type: 'tool_use', id: 'tu-bash', name: 'Bash', input: { command: 'npm test', description: 'Run tests' } },
+          ],
+        },
+      },
+      {
+        type: 'user',
+        message: {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'tu-read', content: 'export const a = 1;' },
+            { type: 'tool_result', tool_use_id: 'tu-bash', content: [{ type: 'text', text: '1 failing' }], is_error: true },
+          ],
+        },
+      },
+    ]));
+
+    const thinking = events.find(event => event.type === 'thinking');
+    assert.equal(thinking?.content, 'The tests live under tests/');
+
+    const read = events.find(event => event.metadata?.toolCallId === 'tu-read' && event.metadata.toolStatus === 'started');
+    assert.equal(read?.type, 'file_read');
+    assert.equal(read?.metadata?.file, '/work/app/src/a.ts');
+
+    const edit = events.find(event => event.metadata?.toolCallId === 'tu-edit');
+    assert.equal(edit?.type, 'file_write');
+    assert.equal(edit?.metadata?.file, '/work/app/src/a.ts');
+    // The diff is computed from the file, which doesn't exist here
+    assert.equal(edit?.metadata?.diff, undefined);
+
+    const bash = events.find(event => event.metadata?.toolCallId === 'tu-bash' && event.metadata.toolStatus === 'started');
+    assert.equal(bash?.type, 'command');
+    assert.equal(bash?.metadata?.command, 'npm test');
+    assert.equal(bash?.content, 'Bash: {"command":"npm test","description":"Run tests"}');
+
+    const output = events.find(event => event.metadata?.toolCallId === 'tu-read' && event.metadata.toolStatus === 'completed');
+    assert.equal(output?.type, 'command_output');
+    assert.equal(output?.content, 'export const a = 1;');
+
+    const failure = events.find(event => event.metadata?.toolCallId === 'tu-bash' && event.metadata.toolStatus === 'failed');
+    assert.equal(failure?.type, 'error');
+    assert.equal(failure?.content, '1 failing');
+  });
+});
+
+describe('ClaudeProvider abort', () => {
+  // Starts a tool call and then waits, as the CLI does while a long command runs
+  function createLongRunningProcess(onInterrupt?: (request: Record<string, any>, process: FakeClaudeProcess) => void): FakeClaudeProcess {
+    return new FakeClaudeProcess((message, process) => {
+      if (message.type === 'user') {
+        process.send({ type: 'system', subtype: 'init', session_id: 'sess-long' });
+        process.send({
+          type: 'assistant', session_id: 'sess-long', parent_tool_use_id: null,
+          message: { content: [{ type: 'tool_use', id: 'tu-sleep', name: 'Bash', input: { command: 'sleep 600' } }] },
+        });
+      }
+      if (message.type === 'control_request' && message.request?.subtype === 'interrupt') onInterrupt?.(message, process);
+    });
+  }
+
+  async function startLongRun(fake: FakeClaudeProcess, spawned: string[][], options: { interruptGraceMs?: number } = {}) {
+    const processes = [fake];
+    const provider = new ClaudeProvider({
+      ...options,
+      spawnClaudeCodeProcess: spawnOptions => {
+        spawned.push(spawnOptions.args);
+        return (processes.shift() ?? createScriptedClaudeProcess('sess-long', [])) as never;
+      },
+    });
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-abort',
+      workingDirectory: '/work/app',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+    const running = session.execute('run the slow thing');
+    while (!events.some(event => event.metadata?.toolCallId === 'tu-sleep')) await delay(5);
+    return { session, events, running };
+  }
+
+  it('should interrupt the CLI, emit a cancelled event and resume on the next call', async () => {
+    const spawned: string[][] = [];
+    const fake = createLongRunningProcess((request, process) => {
+      process.respondToControl(request);
+      process.send({ ...resultMessage('sess-long'), subtype: 'error_during_execution', errors: [] });
+    });
+    const { session, events, running } = await startLongRun(fake, spawned);
+
+    await session.abort();
+    const result = await running;
+
+    assert.equal(result.status, 'cancelled');
+    assert.equal(events.at(-1)?.type, 'cancelled');
+    assert.ok(fake.messages.some(message => message.request?.subtype === 'interrupt'));
+    assert.equal(session.sessionId, 'sess-long');
+
+    const next = await session.execute('carry on');
+    assert.equal(next.status, 'complete');
+    assert.deepEqual(spawned[1].slice(spawned[1].indexOf('--resume'), spawned[1].indexOf('--resume') + 2), ['--resume', 'sess-long']);
+  });
+
+  it('should kill a CLI that ignores the interrupt once the grace period passes', async () => {
+    const fake = createLongRunningProcess();
+    const { session, events, running } = await startLongRun(fake, [], { interruptGraceMs: 20 });
+
+    void session.abort();
+    const result = await running;
+
+    assert.equal(result.status, 'cancelled');
+    assert.equal(fake.killed, true);
+    assert.equal(events.at(-1)?.type, 'cancelled');
+    assert.ok(!events.some(event => event.type === 'error'));
+  });
+
+  it('should still kill the CLI when it sends more messages after the interrupt without stopping', async () => {
+    const fake = createLongRunningProcess((request, process) => {
+      process.respondToControl(request);
+      process.send({
+        type: 'user', session_id: 'sess-long', parent_tool_use_id: null,
+        message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu-sleep', content: 'still sleeping' }] },
+      });
+    });
+    const { session, events, running } = await startLongRun(fake, [], { interruptGraceMs: 50 });
+
+    await session.abort();
+    const result = await running;
+
+    assert.equal(result.status, 'cancelled');
+    assert.equal(fake.killed, true);
+    assert.ok(!events.some(event => event.content === 'still sleeping'));
+    assert.equal(events.at(-1)?.type, 'cancelled');
+  });
+});
+
+describe('ClaudeProvider session options', () => {
+  it('should merge provider and session settings', () => {
+    const options = buildClaudeSessionOptions(
+      {
+        mcpServers: { docs: { command: 'docs-mcp' }, search: { type: 'http', url: 'https://search.internal/mcp' } },
+        allowedTools: ['Read'],
+        disallowedTools: ['WebFetch'],
+        maxTurns: 20,
+      },
+      {
+        workingDirectory: '/work/app',
+        claude: {
+          mcpServers: { docs: { command: 'docs-mcp', args: ['--v2'] } },
+          allowedTools: ['Read', 'Bash(npm test:*)', 'mcp__docs__search'],
+          disallowedTools: ['WebSearch'],
+          additionalDirectories: ['../shared'],
+        },
+      },
+    );
+    const { mcpServers, ...rest } = options;
+    assert.deepEqual(Object.keys(mcpServers ?? {}), ['docs', 'search']);
+    assert.deepEqual((mcpServers?.docs as { args?: string[] }).args, ['--v2']);
+    assert.deepEqual(mcpServers?.search, { type: 'http', url: 'https://search.internal/mcp' });
+    assert.deepEqual(rest, {
+      allowedTools: ['Read', 'Bash(npm test:*)', 'mcp__docs__search'],
+      disallowedTools: ['WebFetch', 'WebSearch'],
+      additionalDirectories: ['/work/shared'],
+      maxTurns: 20,
+    });
+  });
+
+  it('should add session MCP servers beneath Claude-specific ones', () => {
+    const options = buildClaudeSessionOptions(
+      { mcpServers: { docs: { command: 'docs-mcp' } } },
+      {
+        workingDirectory: '/work/app',
+        mcpServers: {
+          docs: { command: 'docs-mcp', args: ['--v3'] },
+          search: { type: 'sse', url: 'https://search.internal/sse' },
+        },
+        claude: { mcpServers: { search: { type: 'http', url: 'https://search.internal/mcp' } } },
+      },
+    );
+    assert.deepEqual(options.mcpServers?.search, { type: 'http', url: 'https://search.internal/mcp' });
+    const docs = options.mcpServers?.docs as { args?: string[]; env?: Record<string, string> };
+    assert.deepEqual(docs.args, ['--v3']);
+    assert.equal(docs.env?.PATH, process.env.PATH);
+  });
+
+  it('should validate Claude-specific MCP servers and scrub their environment', () => {
+    const options = buildClaudeSessionOptions(
+      { mcpServers: { docs: { command: 'docs-mcp', env: { DOCS_TOKEN: 't' } } } },
+      { workingDirectory: '/work/app', claude: { mcpServers: { search: { command: 'search-mcp' } } } },
+    );
+    const docs = options.mcpServers?.docs as { env?: Record<string, string> };
+    const search = options.mcpServers?.search as { env?: Record<string, string> };
+    assert.equal(docs.env?.DOCS_TOKEN, 't');
+    assert.equal(docs.env?.PATH, process.env.PATH);
+    assert.equal(search.env?.PATH, process.env.PATH);
+
+    assert.throws(
+      () => buildClaudeSessionOptions({}, { workingDirectory: '/work/app', claude: { mcpServers: { 'bad name': { command: 'x' } } } }),
+      /Invalid MCP server "bad name"/,
+    );
+  });
+
+  it('should not pre-approve write or shell tools in plan mode', () => {
+    const options = buildClaudeSessionOptions(
+      { allowedTools: ['Read', 'Edit', 'Bash(npm test:*)', 'Grep'] },
+      { workingDirectory: '/work/app', mode: 'plan' },
+    );
+    assert.deepEqual(options.allowedTools, ['Read', 'Grep']);
+  });
+
+  it('should refuse full mode with a permission policy or audit log, which it would bypass', async () => {
+    const provider = new ClaudeProvider({ spawnClaudeCodeProcess: () => createScriptedClaudeProcess('sess-full', []) as never });
+    const base = { contextId: 'ctx-full', workingDirectory: '/work/app', systemPrompt: '', onEvent: () => {}, mode: 'full' as const };
+
+    await assert.rejects(provider.createSession({ ...base, permissionPolicy: { rules: [] } }), /full mode/);
+    await assert.rejects(
+      provider.createSession({ ...base, permissionAudit: createPermissionAuditLog({ sink: { append: () => {} } }) }),
+      /full mode/,
+    );
+    await provider.createSession(base);
+  });
+
+  it('should use the default permission mode when only a permission audit log is set', async () => {
+    let args: string[] = [];
+    const provider = new ClaudeProvider({
+      spawnClaudeCodeProcess: options => {
+        args = options.args;
+        return createScriptedClaudeProcess('sess-audit', []) as never;
+      },
+    });
+    const session = await provider.createSession({
+      contextId: 'ctx-audit',
+      workingDirectory: '/work/app',
+      systemPrompt: '',
+      onEvent: () => {},
+      permissionAudit: createPermissionAuditLog({ sink: { append: () => {} } }),
+    });
+
+    await session.execute('edit');
+
+    assert.equal(args[args.indexOf('--permission-mode') + 1], 'default');
+  });
+
+  it('should run onPreToolUse through the PreToolUse hook and apply its toolArgs', async () => {
+    let hookResponse: Record<string, any> | undefined;
+    const fake = new FakeClaudeProcess((message, process) => {
+      if (message.type === 'user') {
+        const initialize = process.messages.find(item => item.request?.subtype === 'initialize');
+        process.send({
+          type: 'control_request',
+          request_id: 'hook-1',
+          request: {
+            subtype: 'hook_callback',
+            callback_id: initialize?.request.hooks.PreToolUse[0].hookCallbackIds[0],
+            tool_use_id: 'tu-1',
+            input: {
+              hook_event_name: 'PreToolUse', session_id: 'sess-hook', transcript_path: '', cwd: '/work/app',
+              tool_name: 'Bash', tool_input: { command: 'npm test' }, tool_use_id: 'tu-1',
+            },
+          },
+        });
+      }
+      if (message.type === 'control_response' && message.response?.request_id === 'hook-1') {
+        hookResponse = message.response;
+        process.send(resultMessage('sess-hook'));
+      }
+    });
+    const seen: unknown[] = [];
+    const provider = new ClaudeProvider({ spawnClaudeCodeProcess: () => fake as never });
+    const session = await provider.createSession({
+      contextId: 'ctx-hook',
+      workingDirectory: '/work/app',
+      systemPrompt: '',
+      onEvent: () => {},
+      hooks: {
+        onPreToolUse: input => {
+          seen.push({ ...(input as object) });
+          return { toolArgs: { command: 'npm test -- --reporter=dot' } };
+        },
+      },
+    });
+
+    await session.execute('test');
+
+    assert.deepEqual(seen, [{
+      sessionId: 'sess-hook',
+      timestamp: (seen[0] as { timestamp: Date }).timestamp,
+      workingDirectory: '/work/app',
+      toolName: 'Bash',
+      toolArgs: { command: 'npm test' },
+      cwd: '/work/app',
+    }]);
+    assert.deepEqual(hookResponse?.response?.hookSpecificOutput, {
+      hookEventName: 'PreToolUse',
+      updatedInput: { command: 'npm test -- --reporter=dot' },
+    });
+  });
+});
+
+describe('ClaudeProvider custom tools', () => {
+  it('should serve custom tools from an in-process MCP server', async () => {
+    let toolResponse: Record<string, any> | undefined;
+    let unknownToolResponse: Record<string, any> | undefined;
+    const fake = new FakeClaudeProcess((message, process) => {
+      if (message.type === 'user') {
+        process.send({ type: 'system', subtype: 'init', session_id: 'sess-tools' });
+        process.send({
+          type: 'control_request',
+          request_id: 'mcp-1',
+          request: {
+            subtype: 'mcp_message',
+            server_name: 'agent-tools',
+            message: { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'lookup_ticket', arguments: { id: 'T-1' } } },
+          },
+        });
+      }
+      if (message.type === 'control_response' && message.response?.request_id === 'mcp-1') {
+        toolResponse = message.response.response;
+        process.send({
+          type: 'control_request',
+          request_id: 'mcp-2',
+          request: {
+            subtype: 'mcp_message',
+            server_name: 'agent-tools',
+            message: { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'close_ticket', arguments: {} } },
+          },
+        });
+      }
+      if (message.type === 'control_response' && message.response?.request_id === 'mcp-2') {
+        unknownToolResponse = message.response.response;
+        process.send(resultMessage('sess-tools'));
+      }
+    });
+    const calls: unknown[] = [];
+    let queryOptions: string[] = [];
+    const provider = new ClaudeProvider({
+      spawnClaudeCodeProcess: options => {
+        queryOptions = options.args;
+        return fake as never;
+      },
+    });
+    const session = await provider.createSession({
+      contextId: 'ctx-tools',
+      workingDirectory: '/work/app',
+      systemPrompt: '',
+      onEvent: () => {},
+      tools: [{
+        name: 'lookup_ticket',
+        description: 'Look up a ticket',
+        handler: (args, caller) => { calls.push({ args, caller }); return 'open'; },
+      }],
+    });
+
+    await session.execute('check T-1');
+
+    const initialize = fake.messages.find(item => item.request?.subtype === 'initialize');
+    assert.deepEqual(initialize?.request.sdkMcpServers, ['agent-tools']);
+    assert.ok(queryOptions.join(' ').includes('mcp__agent-tools'));
+    assert.deepEqual(toolResponse?.mcp_response, {
+      jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'open' }], isError: false },
+    });
+    assert.deepEqual(unknownToolResponse?.mcp_response, {
+      jsonrpc: '2.0', id: 2, error: { code: -32602, message: 'Unknown tool: close_ticket' },
+    });
+    assert.deepEqual(calls, [{ args: { id: 'T-1' }, caller: { agentType: 'claude', sessionId: 'sess-tools', contextId: 'ctx-tools' } }]);
+  });
+});
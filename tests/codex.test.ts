@@ -0,0 +1,187 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CodexProvider, buildCodexMcpConfig, buildCodexThreadOptions } from '../src/providers/codex.ts';
+import type { AgentEvent } from '../src/types/events.ts';
+
+const workingDirectory = '/work/app';
+
+describe('buildCodexThreadOptions', () => {
+  it('should default to a workspace-write sandbox without a git repo check', () => {
+    assert.deepEqual(buildCodexThreadOptions({}, { workingDirectory }), {
+      workingDirectory,
+      skipGitRepoCheck: true,
+      sandboxMode: 'workspace-write',
+    });
+  });
+
+  it('should pass provider settings through, with session settings taking precedence', () => {
+    const options = buildCodexThreadOptions(
+      {
+        model: 'gpt-5.2-codex',
+        approvalPolicy: 'never',
+        networkAccessEnabled: false,
+        modelReasoningEffort: 'high',
+        additionalDirectories: ['/cache/npm'],
+      },
+      {
+        workingDirectory,
+        codex: { networkAccessEnabled: true, additionalDirectories: ['../shared'], skipGitRepoCheck: false },
+      },
+    );
+    assert.deepEqual(options, {
+      model: 'gpt-5.2-codex',
+      workingDirectory,
+      skipGitRepoCheck: false,
+      sandboxMode: 'workspace-write',
+      approvalPolicy: 'never',
+      networkAccessEnabled: true,
+      modelReasoningEffort: 'high',
+      additionalDirectories: ['/work/shared'],
+    });
+  });
+
+  it('should pick the sandbox from the session, then its mode, then the provider', () => {
+    assert.equal(buildCodexThreadOptions({ sandboxMode: 'read-only' }, { workingDirectory }).sandboxMode, 'read-only');
+    assert.equal(buildCodexThreadOptions({ sandboxMode: 'read-only' }, { workingDirectory, mode: 'full' }).sandboxMode, 'danger-full-access');
+    assert.equal(
+      buildCodexThreadOptions({}, { workingDirectory, mode: 'full', codex: { sandboxMode: 'workspace-write' } }).sandboxMode,
+      'workspace-write',
+    );
+  });
+
+  it('should keep plan mode read-only whatever the sandbox settings say', () => {
+    const options = buildCodexThreadOptions(
+      { sandboxMode: 'danger-full-access' },
+      { workingDirectory, mode: 'plan', codex: { sandboxMode: 'workspace-write' } },
+    );
+    assert.equal(options.sandboxMode, 'read-only');
+  });
+});
+
+describe('buildCodexMcpConfig', () => {
+  it('should map stdio and HTTP servers to mcp_servers overrides and skip SSE', () => {
+    assert.deepEqual(
+      buildCodexMcpConfig({
+        docs: { command: 'docs-mcp', args: ['--stdio'], env: { DOCS_TOKEN: 't' } },
+        search: { type: 'http', url: 'https://search.internal/mcp', headers: { 'X-Key': 'k' } },
+        events: { type: 'sse', url: 'https://events.internal/sse' },
+      }),
+      {
+        mcp_servers: {
+          docs: { command: 'docs-mcp', args: ['--stdio'], env: { DOCS_TOKEN: 't' } },
+          search: { url: 'https://search.internal/mcp', http_headers: { 'X-Key': 'k' } },
+        },
+      },
+    );
+  });
+});
+
+describe('CodexProvider item events', () => {
+  async function runEvents(codexEvents: Array<Record<string, unknown>>): Promise<AgentEvent[]> {
+    const thread = {
+      id: 'codex-thread',
+      runStreamed: async () => ({
+        events: (async function* () {
+          yield* codexEvents;
+          yield { type: 'turn.completed', usage: { input_tokens: 1, cached_input_tokens: 0, output_tokens: 1 } };
+        })(),
+      }),
+    };
+    const provider = new CodexProvider();
+    (provider as any).codex = { startThread: () => thread, resumeThread: () => thread };
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-codex',
+      workingDirectory,
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+    const result = await session.execute('go');
+    assert.equal(result.status, 'complete');
+    return events;
+  }
+
+  it('should stream agent text and command output as deltas', async () => {
+    const events = await runEvents([
+      { type: 'item.started', item: { id: 'cmd', type: 'command_execution', command: 'npm test', aggregated_output: '', status: 'in_progress' } },
+      { type: 'item.updated', item: { id: 'cmd', type: 'command_execution', command: 'npm test', aggregated_output: 'ok 1\n', status: 'in_progress' } },
+      { type: 'item.updated', item: { id: 'cmd', type: 'command_execution', command: 'npm test', aggregated_output: 'ok 1\nok 2\n', status: 'in_progress' } },
+      { type: 'item.completed', item: { id: 'cmd', type: 'command_execution', command: 'npm test', aggregated_output: 'ok 1\nok 2\n', exit_code: 0, status: 'completed' } },
+      { type: 'item.started', item: { id: 'msg', type: 'agent_message', text: '' } },
+      { type: 'item.updated', item: { id: 'msg', type: 'agent_message', text: 'All tests' } },
+      { type: 'item.updated', item: { id: 'msg', type: 'agent_message', text: 'All tests pass' } },
+      { type: 'item.completed', item: { id: 'msg', type: 'agent_message', text: 'All tests pass.' } },
+    ]);
+
+    const command = events.filter(event => event.metadata?.toolCallId === 'cmd');
+    assert.deepEqual(
+      command.map(event => [event.type, event.content, event.metadata?.toolStatus]),
+      [
+        ['command', '$ npm test', 'started'],
+        ['command_output', 'ok 1\n', 'running'],
+        ['command_output', 'ok 2\n', 'running'],
+        ['command_output', '', 'completed'],
+      ],
+    );
+    assert.deepEqual(events.filter(event => event.type === 'output').map(event => event.content), ['All tests', ' pass', '.\n']);
+  });
+
+  it('should not emit an output event when the completed message adds no text', async () => {
+    const events = await runEvents([
+      { type: 'item.started', item: { id: 'msg', type: 'agent_message', text: '' } },
+      { type: 'item.updated', item: { id: 'msg', type: 'agent_message', text: 'Done.' } },
+      { type: 'item.completed', item: { id: 'msg', type: 'agent_message', text: 'Done.' } },
+      { type: 'item.completed', item: { id: 'empty', type: 'agent_message', text: '' } },
+    ]);
+    assert.deepEqual(events.filter(event => event.type === 'output').map(event => event.content), ['Done.']);
+  });
+
+  it('should replace streamed text that Codex rewrote', async () => {
+    const events = await runEvents([
+      { type: 'item.updated', item: { id: 'msg', type: 'agent_message', text: 'Draft' } },
+      { type: 'item.completed', item: { id: 'msg', type: 'agent_message', text: 'Final answer' } },
+    ]);
+    const last = events.filter(event => event.type === 'output').at(-1);
+    assert.equal(last?.content, 'Final answer\n');
+    assert.equal(last?.metadata?.replace, true);
+  });
+
+  it('should map MCP, web search and error items', async () => {
+    const events = await runEvents([
+      { type: 'item.started', item: { id: 'mcp', type: 'mcp_tool_call', server: 'docs', tool: 'search', arguments: { q: 'hooks' }, status: 'in_progress' } },
+      {
+        type: 'item.completed',
+        item: {
+          id: 'mcp', type: 'mcp_tool_call', server: 'docs', tool: 'search', arguments: { q: 'hooks' }, status: 'completed',
+          result: { content: [{ type: 'text', text: 'Found 2 pages' }], structured_content: null },
+        },
+      },
+      { type: 'item.started', item: { id: 'mcp-2', type: 'mcp_tool_call', server: 'docs', tool: 'fetch', arguments: {}, status: 'in_progress' } },
+      { type: 'item.completed', item: { id: 'mcp-2', type: 'mcp_tool_call', server: 'docs', tool: 'fetch', arguments: {}, status: 'failed', error: { message: 'timeout' } } },
+      { type: 'item.completed', item: { id: 'web', type: 'web_search', query: 'node test runner' } },
+      { type: 'item.completed', item: { id: 'err', type: 'error', message: 'Falling back to read-only sandbox' } },
+    ]);
+
+    const mcp = events.filter(event => event.metadata?.toolCallId === 'mcp');
+    assert.deepEqual(
+      mcp.map(event => [event.type, event.content, event.metadata?.toolName, event.metadata?.toolStatus]),
+      [
+        ['tool_call', 'docs/search: {"q":"hooks"}', 'search', 'started'],
+        ['command_output', 'Found 2 pages', 'search', 'completed'],
+      ],
+    );
+    const failed = events.find(event => event.metadata?.toolCallId === 'mcp-2' && event.metadata.toolStatus === 'failed');
+    assert.equal(failed?.type, 'error');
+    assert.equal(failed?.content, 'timeout');
+
+    const web = events.filter(event => event.metadata?.toolCallId === 'web');
+    assert.deepEqual(
+      web.map(event => [event.type, event.content, event.metadata?.toolStatus]),
+      [
+        ['tool_call', 'Searching the web: node test runner', 'started'],
+        ['tool_call', 'Searched the web: node test runner', 'completed'],
+      ],
+    );
+    assert.ok(events.some(event => event.type === 'error' && event.content === 'Falling back to read-only sandbox'));
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CopilotProvider } from '../src/providers/copilot.ts';
+import type { AgentEvent } from '../src/types/events.ts';
+
+type SessionEventLike = { type: string; timestamp: string; data: Record<string, unknown> };
+
+/** A Copilot session that plays one scripted list of events per sendAndWait() call. */
+function createScriptedProvider(turns: Array<Array<Omit<SessionEventLike, 'timestamp'>>>): CopilotProvider {
+  const handlers = new Set<(event: SessionEventLike) => void>();
+  let call = 0;
+  const session = {
+    sessionId: 'copilot-session',
+    on: (handler: (event: SessionEventLike) => void) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    sendAndWait: async () => {
+      for (const event of turns[call++] ?? []) {
+        for (const handler of handlers) handler({ ...event, timestamp: new Date().toISOString() });
+      }
+      return { data: { content: 'done' } };
+    },
+    abort: async () => {},
+    disconnect: async () => {},
+  };
+  const provider = new CopilotProvider();
+  (provider as any).client = { createSession: async () => session, resumeSession: async () => session };
+  return provider;
+}
+
+const usageTurn = (toolCallId: string) => [
+  { type: 'tool.execution_start', data: { toolCallId, toolName: 'bash', arguments: { command: 'npm test' } } },
+  { type: 'tool.execution_complete', data: { toolCallId, success: true, result: { content: 'ok' } } },
+  { type: 'assistant.usage', data: { inputTokens: 100, outputTokens: 20, cacheReadTokens: 40 } },
+];
+
+describe('CopilotProvider event mapping', () => {
+  it('should count each turn\'s usage once across several execute() calls', async () => {
+    const provider = createScriptedProvider([usageTurn('tc-1'), usageTurn('tc-2')]);
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-copilot',
+      workingDirectory: '/work/app',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    const first = await session.execute('one');
+    const second = await session.execute('two');
+
+    assert.deepEqual(first.usage, { inputTokens: 100, outputTokens: 20, cachedInputTokens: 40 });
+    assert.deepEqual(second.usage, { inputTokens: 100, outputTokens: 20, cachedInputTokens: 40 });
+    assert.equal(events.filter(event => event.metadata?.toolCallId === 'tc-2').length, 2);
+  });
+
+  it('should stamp every event once, with seq strictly increasing across turns', async () => {
+    const provider = createScriptedProvider([usageTurn('tc-1'), usageTurn('tc-2'), usageTurn('tc-3')]);
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-copilot',
+      workingDirectory: '/work/app',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    const turnIds: Array<string | undefined> = [];
+    for (const prompt of ['one', 'two', 'three']) turnIds.push((await session.execute(prompt)).turnId);
+
+    assert.equal(events.length, 9);
+    assert.equal(new Set(events.map(event => event.id)).size, events.length);
+    const seqs = events.map(event => event.seq!);
+    assert.ok(seqs.every((seq, index) => index === 0 || seq > seqs[index - 1]));
+    assert.deepEqual(events.map(event => event.turnId), turnIds.flatMap(turnId => [turnId, turnId, turnId]));
+  });
+
+  it('should correlate tool calls and attach a diff to file edits', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'copilot-test-'));
+    try {
+      const file = join(dir, 'a.ts');
+      await writeFile(file, 'const x = 1;\nconst y = a;\n');
+      const provider = createScriptedProvider([[
+        { type: 'tool.execution_start', data: { toolCallId: 'tc-edit', toolName: 'edit', arguments: { path: file, old_str: 'a;', new_str: 'b;' } } },
+        { type: 'tool.execution_complete', data: { toolCallId: 'tc-edit', success: false, error: { message: 'no match' } } },
+      ]]);
+      const events: AgentEvent[] = [];
+      const session = await provider.createSession({
+        contextId: 'ctx-copilot',
+        workingDirectory: dir,
+        systemPrompt: '',
+        onEvent: event => events.push(event),
+      });
+
+      const result = await session.execute('edit');
+
+      const [start, end] = events.filter(event => event.metadata?.toolCallId === 'tc-edit');
+      assert.equal(start.type, 'file_write');
+      assert.equal(start.metadata?.toolStatus, 'started');
+      assert.equal(start.metadata?.file, file);
+      assert.equal(start.metadata?.diff, `--- ${file}\n+++ ${file}\n@@ -1,2 +1,2 @@\n const x = 1;\n-const y = a;\n+const y = b;`);
+      assert.equal(end.metadata?.toolStatus, 'failed');
+      assert.equal(end.metadata?.toolName, 'edit');
+      assert.deepEqual(result.changedFiles, []);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
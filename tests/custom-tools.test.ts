@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import {
+  assertValidAgentTools,
+  handleMcpToolMessage,
+  startMcpToolServer,
+  toAcpMcpServer,
+} from '../src/providers/custom-tools.ts';
+import type { AgentTool, AgentToolContext } from '../src/types/providers.ts';
+
+const context = (): AgentToolContext => ({ agentType: 'hermes', sessionId: 'sess-1', contextId: 'ctx-1' });
+
+const lookupTool: AgentTool = {
+  name: 'lookup_ticket',
+  description: 'Look up a ticket by ID',
+  inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+  handler: args => `Ticket ${String(args.id)}: open`,
+};
+
+const failingTool: AgentTool = {
+  name: 'deploy',
+  description: 'Deploy the app',
+  handler: () => { throw new Error('deploys are frozen'); },
+};
+
+describe('handleMcpToolMessage', () => {
+  it('should answer initialize and list tools with their schemas', async () => {
+    const init = await handleMcpToolMessage([lookupTool], {
+      jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' },
+    }, context);
+    assert.deepEqual(init?.result, {
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {} },
+      serverInfo: { name: 'agent-tools', version: '1.0.0' },
+    });
+
+    const list = await handleMcpToolMessage([lookupTool, failingTool], { jsonrpc: '2.0', id: 2, method: 'tools/list' }, context);
+    assert.deepEqual(list?.result, {
+      tools: [
+        { name: 'lookup_ticket', description: 'Look up a ticket by ID', inputSchema: lookupTool.inputSchema },
+        { name: 'deploy', description: 'Deploy the app', inputSchema: { type: 'object', properties: {} } },
+      ],
+    });
+  });
+
+  it('should call the handler with the arguments and the caller', async () => {
+    const seen: unknown[] = [];
+    const tool: AgentTool = { ...lookupTool, handler: (args, caller) => { seen.push({ args, caller }); return { output: 'not found', isError: true }; } };
+    const response = await handleMcpToolMessage([tool], {
+      jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'lookup_ticket', arguments: { id: 'T-9' } },
+    }, context);
+    assert.deepEqual(response?.result, { content: [{ type: 'text', text: 'not found' }], isError: true });
+    assert.deepEqual(seen, [{ args: { id: 'T-9' }, caller: context() }]);
+  });
+
+  it('should report a throwing handler as a failed call', async () => {
+    const response = await handleMcpToolMessage([failingTool], {
+      jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'deploy' },
+    }, context);
+    assert.deepEqual(response?.result, { content: [{ type: 'text', text: 'deploys are frozen' }], isError: true });
+  });
+
+  it('should reject unknown tools and methods and ignore notifications', async () => {
+    const unknownTool = await handleMcpToolMessage([], { jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 'nope' } }, context);
+    assert.equal(unknownTool?.error?.code, -32602);
+    const unknownMethod = await handleMcpToolMessage([], { jsonrpc: '2.0', id: 6, method: 'resources/list' }, context);
+    assert.equal(unknownMethod?.error?.code, -32601);
+    assert.equal(await handleMcpToolMessage([], { jsonrpc: '2.0', method: 'notifications/initialized' }, context), undefined);
+  });
+});
+
+describe('assertValidAgentTools', () => {
+  it('should reject invalid and duplicate names', () => {
+    assert.throws(() => assertValidAgentTools([{ ...lookupTool, name: 'look up' }]), /Invalid tool name "look up"/);
+    assert.throws(() => assertValidAgentTools([lookupTool, lookupTool]), /Duplicate tool name "lookup_ticket"/);
+    assert.doesNotThrow(() => assertValidAgentTools([lookupTool, failingTool]));
+  });
+});
+
+describe('startMcpToolServer', () => {
+  it('should serve tool calls over HTTP to requests carrying the token', async () => {
+    const server = await startMcpToolServer([lookupTool], context);
+    try {
+      const call = { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'lookup_ticket', arguments: { id: 'T-1' } } };
+      const unauthorized = await fetch(server.url, { method: 'POST', body: JSON.stringify(call) });
+      assert.equal(unauthorized.status, 401);
+
+      const response = await fetch(server.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${server.token}` },
+        body: JSON.stringify(call),
+      });
+      assert.equal(response.status, 200);
+      assert.deepEqual((await response.json()).result, { content: [{ type: 'text', text: 'Ticket T-1: open' }], isError: false });
+
+      const notification = await fetch(server.url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${server.token}` },
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      });
+      assert.equal(notification.status, 202);
+    } finally {
+      await server.close();
+    }
+  });
+
+  it('should reach the same tools through the stdio bridge', async () => {
+    const server = await startMcpToolServer([lookupTool], context);
+    try {
+      const entry = toAcpMcpServer(server, false);
+      assert.ok('command' in entry && !('type' in entry));
+      const child = spawn(entry.command, entry.args, {
+        env: { ...process.env, ...Object.fromEntries(entry.env.map(variable => [variable.name, variable.value])) },
+      });
+      const line = new Promise<string>(resolve => {
+        let buffer = '';
+        child.stdout.on('data', chunk => {
+          buffer += chunk.toString();
+          if (buffer.includes('\n')) resolve(buffer.slice(0, buffer.indexOf('\n')));
+        });
+      });
+      child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'lookup_ticket', arguments: { id: 'T-2' } } })}\n`);
+      const response = JSON.parse(await line);
+      child.kill();
+      assert.deepEqual(response, { jsonrpc: '2.0', id: 7, result: { content: [{ type: 'text', text: 'Ticket T-2: open' }], isError: false } });
+
+      assert.deepEqual(toAcpMcpServer(server, true), {
+        type: 'http',
+        name: 'agent-tools',
+        url: server.url,
+        headers: [{ name: 'Authorization', value: `Bearer ${server.token}` }],
+      });
+    } finally {
+      await server.close();
+    }
+  });
+});
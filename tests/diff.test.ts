@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createEditDiff, createUnifiedDiff } from '../src/providers/diff.ts';
+
+describe('createUnifiedDiff', () => {
+  it('should render a changed line with surrounding context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].join('\n') + '\n';
+    const after = before.replace('e\n', 'E\n');
+
+    assert.equal(createUnifiedDiff('src/x.ts', before, after), [
+      '--- a/src/x.ts',
+      '+++ b/src/x.ts',
+      '@@ -2,7 +2,7 @@',
+      ' b',
+      ' c',
+      ' d',
+      '-e',
+      '+E',
+      ' f',
+      ' g',
+      ' h',
+    ].join('\n'));
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+    const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', '');
+
+    const diff = createUnifiedDiff('f.txt', before, after, 1) ?? '';
+    assert.deepEqual(diff.split('\n').filter(line => line.startsWith('@@')), ['@@ -1,3 +1,3 @@', '@@ -18,3 +18,2 @@']);
+    assert.match(diff, /^-line 19$/m);
+  });
+
+  it('should diff a new file against /dev/null', () => {
+    assert.equal(createUnifiedDiff('new.md', null, '# Title\nbody\n'), [
+      '--- /dev/null',
+      '+++ b/new.md',
+      '@@ -0,0 +1,2 @@',
+      '+# Title',
+      '+body',
+    ].join('\n'));
+  });
+
+  it('should return undefined when nothing changed', () => {
+    assert.equal(createUnifiedDiff('same.ts', 'x\n', 'x\n'), undefined);
+  });
+});
+
+describe('createEditDiff', () => {
+  it('should number hunks by the file\'s lines, not the replaced snippet\'s', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'diff-test-'));
+    try {
+      const lines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+      await writeFile(join(dir, 'app.ts'), lines.join('\n') + '\n');
+
+      const diff = createEditDiff('app.ts', dir, [
+        { oldText: 'line 10', newText: 'line ten' },
+        { oldText: 'line 2', newText: 'line two', replaceAll: true },
+      ]);
+
+      assert.equal(diff, [
+        '--- a/app.ts',
+        '+++ b/app.ts',
+        '@@ -1,5 +1,5 @@',
+        ' line 1',
+        '-line 2',
+        '+line two',
+        ' line 3',
+        ' line 4',
+        ' line 5',
+        '@@ -7,7 +7,7 @@',
+        ' line 7',
+        ' line 8',
+        ' line 9',
+        '-line 10',
+        '+line ten',
+        ' line 11',
+        ' line 12',
+        ' line 13',
+        '@@ -17,4 +17,4 @@',
+        ' line 17',
+        ' line 18',
+        ' line 19',
+        '-line 20',
+        '+line two0',
+      ].join('\n'));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return undefined when the file or the old text is missing', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'diff-test-'));
+    try {
+      await writeFile(join(dir, 'app.ts'), 'const a = 1;\n');
+      assert.equal(createEditDiff('app.ts', dir, [{ oldText: 'const b', newText: 'const c' }]), undefined);
+      assert.equal(createEditDiff('missing.ts', dir, [{ oldText: 'a', newText: 'b' }]), undefined);
+      assert.equal(createEditDiff(join(dir, 'app.ts'), '/elsewhere', [{ oldText: '1', newText: '2' }])?.split('\n')[2], '@@ -1 +1 @@');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -146,8 +146,8 @@ function providerE2eSuite(
 
       const result = await executePromise;
       assert.ok(
-        result.status === 'complete' || result.status === 'failed',
-        'Should complete or fail after abort',
+        result.status === 'complete' || result.status === 'cancelled',
+        'Should complete or be cancelled after abort',
       );
 
       await session.destroy();
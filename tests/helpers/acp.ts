@@ -189,6 +189,9 @@ export async function runStreamingPromptScenario(
   if (result.status !== 'complete') {
     throw new Error(`${options.errorLabel} prompt failed: ${result.error ?? 'unknown error'}`);
   }
+  if (result.stopReason !== 'end_turn' || result.finalMessage !== options.expectedOutput) {
+    throw new Error(`${options.errorLabel} returned unexpected result: ${JSON.stringify(result)}`);
+  }
   if (session.sessionId !== options.sessionId) {
     throw new Error(`${options.errorLabel} returned unexpected session id: ${session.sessionId}`);
   }
@@ -362,13 +365,43 @@ export function registerAbortAndExitTests(
     initialize: (message: RpcMessage, process: FakeAcpProcess) => boolean;
   },
 ): void {
-  it('should send session/cancel and resolve the in-flight prompt as failed on abort', async () => {
+  it('should send session/cancel and resolve the in-flight prompt as cancelled on abort', async () => {
     let cancelSent = false;
     const fake = createAbortAcpProcess(options.initialize, () => { cancelSent = true; });
 
     await runAbortScenario(options.createProvider(fake), () => cancelSent);
   });
 
+  it('should send session/cancel and resolve as timed out when timeoutMs elapses', async () => {
+    let cancelSent = false;
+    const fake = createAbortAcpProcess(options.initialize, () => { cancelSent = true; });
+
+    await runTimeoutScenario(options.createProvider(fake), () => cancelSent);
+  });
+
+  it('should send session/cancel when the caller aborts its signal', async () => {
+    let cancelSent = false;
+    const fake = createAbortAcpProcess(options.initialize, () => { cancelSent = true; });
+    const provider = options.createProvider(fake);
+    await provider.start();
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+    });
+
+    const controller = new AbortController();
+    const execution = session.execute('long prompt', { signal: controller.signal });
+    await new Promise<void>(resolve => setImmediate(resolve));
+    controller.abort();
+    const result = await execution;
+
+    assert.ok(cancelSent, 'cancel request was not sent');
+    assert.equal(result.status, 'cancelled');
+    assert.equal(result.stopReason, 'cancelled');
+  });
+
   it('should fail pending prompts when the ACP process exits', async () => {
     const fake = createExitAcpProcess(options.initialize);
 
@@ -394,8 +427,27 @@ export async function runAbortScenario(
   const result = await execution;
 
   if (!didCancel()) throw new Error('cancel request was not sent');
-  if (result.status !== 'failed') throw new Error(`expected failed abort result, got ${result.status}`);
-  if (!/aborted/.test(result.error ?? '')) throw new Error(`expected aborted error, got ${result.error ?? '<missing>'}`);
+  if (result.status !== 'cancelled') throw new Error(`expected cancelled abort result, got ${result.status}`);
+  if (result.error !== undefined) throw new Error(`expected no error on abort, got ${result.error}`);
+}
+
+export async function runTimeoutScenario(
+  provider: { start(): Promise<void>; createSession(config: any): Promise<any> },
+  didCancel: () => boolean,
+): Promise<void> {
+  await provider.start();
+  const session = await provider.createSession({
+    contextId: 'ctx-1',
+    workingDirectory: '/tmp/project',
+    systemPrompt: '',
+    onEvent: () => {},
+  });
+
+  const result = await session.execute('long prompt', { timeoutMs: 20 });
+
+  if (!didCancel()) throw new Error('cancel request was not sent');
+  if (result.status !== 'timed_out') throw new Error(`expected timed_out result, got ${result.status}`);
+  if (result.stopReason !== 'timed_out') throw new Error(`expected timed_out stop reason, got ${result.stopReason ?? '<missing>'}`);
 }
 
 export async function runProcessExitScenario(
@@ -0,0 +1,101 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+
+export type ClaudeWireMessage = Record<string, any>;
+
+/**
+ * Stands in for the Claude Code CLI behind spawnClaudeCodeProcess: reads the
+ * SDK's stream-json input, answers its initialize request, and writes
+ * whatever messages the test sends back.
+ */
+export class FakeClaudeProcess extends EventEmitter {
+  stdin = new PassThrough();
+  stdout = new PassThrough();
+  killed = false;
+  exitCode: number | null = null;
+  messages: ClaudeWireMessage[] = [];
+  private buffer = '';
+  private busy = false;
+  private inputClosed = false;
+  private onMessage?: (message: ClaudeWireMessage, process: FakeClaudeProcess) => void;
+
+  constructor(onMessage?: (message: ClaudeWireMessage, process: FakeClaudeProcess) => void) {
+    super();
+    this.onMessage = onMessage;
+    this.stdin.on('data', chunk => this.handleInput(chunk.toString()));
+    // Like the CLI, finish the turn in progress before exiting on end of input
+    this.stdin.on('end', () => {
+      this.inputClosed = true;
+      if (!this.busy) this.exit(0, null);
+    });
+  }
+
+  send(message: ClaudeWireMessage): void {
+    if (this.stdout.writableEnded) return;
+    this.stdout.write(`${JSON.stringify(message)}\n`);
+    if (message.type !== 'result') return;
+    this.busy = false;
+    if (this.inputClosed) this.exit(0, null);
+  }
+
+  respondToControl(request: ClaudeWireMessage, response: Record<string, unknown> = {}): void {
+    this.send({ type: 'control_response', response: { subtype: 'success', request_id: request.request_id, response } });
+  }
+
+  kill(signal?: NodeJS.Signals): boolean {
+    this.killed = true;
+    this.exit(null, signal ?? 'SIGTERM');
+    return true;
+  }
+
+  private exit(code: number | null, signal: NodeJS.Signals | null): void {
+    if (this.exitCode !== null || this.stdout.writableEnded) return;
+    this.exitCode = code ?? 1;
+    this.stdout.end();
+    setImmediate(() => this.emit('exit', code, signal));
+  }
+
+  private handleInput(chunk: string): void {
+    this.buffer += chunk;
+    while (true) {
+      const newlineIndex = this.buffer.indexOf('\n');
+      if (newlineIndex === -1) break;
+      const line = this.buffer.slice(0, newlineIndex);
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      if (!line.trim()) continue;
+      const message = JSON.parse(line) as ClaudeWireMessage;
+      this.messages.push(message);
+      if (message.type === 'user') this.busy = true;
+      if (message.type === 'control_request' && message.request?.subtype === 'initialize') {
+        this.respondToControl(message);
+        continue;
+      }
+      this.onMessage?.(message, this);
+    }
+  }
+}
+
+/** Fake CLI that answers each user message with the given messages followed by a successful result. */
+export function createScriptedClaudeProcess(
+  sessionId: string,
+  script: ClaudeWireMessage[],
+): FakeClaudeProcess {
+  return new FakeClaudeProcess((message, process) => {
+    if (message.type !== 'user') return;
+    process.send({ type: 'system', subtype: 'init', session_id: sessionId });
+    for (const item of script) process.send({ session_id: sessionId, parent_tool_use_id: null, ...item });
+    process.send(resultMessage(sessionId));
+  });
+}
+
+export function resultMessage(sessionId: string, result = 'done'): ClaudeWireMessage {
+  return {
+    type: 'result',
+    subtype: 'success',
+    session_id: sessionId,
+    result,
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 1, output_tokens: 1 },
+    total_cost_usd: 0,
+  };
+}
@@ -20,6 +20,8 @@ import {
   runStreamingPromptScenario,
 } from './helpers/acp.ts';
 import type { RpcMessage } from './helpers/acp.ts';
+import type { AgentEvent } from '../src/types/events.ts';
+import type { AgentPermissionRequest, AgentToolCall, AgentToolResult } from '../src/types/providers.ts';
 
 function createStartedProvider(fake: FakeAcpProcess): HermesProvider {
   return new HermesProvider({
@@ -58,6 +60,28 @@ describe('HermesProvider ACP construction', () => {
     );
   });
 
+  it('should refuse a worktree session it cannot keep out of the checkout', async () => {
+    const methods: string[] = [];
+    const fake = new FakeAcpProcess((message, process) => {
+      if (message.method) methods.push(message.method);
+      respondToInitialize(message, process);
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    await assert.rejects(
+      () => provider.createSession({
+        contextId: 'ctx-1',
+        workingDirectory: '/work/app/.worktrees/feature',
+        repoPath: '/work/app',
+        systemPrompt: 'test',
+        onEvent: () => {},
+      }),
+      { message: /cannot keep a worktree session out of \/work\/app/ },
+    );
+    assert.deepEqual(methods, ['initialize']);
+    await provider.stop();
+  });
+
   it('should wait for a split initialize frame', async () => {
     const fake = new FakeAcpProcess((message, process) => {
       if (message.method === 'initialize') {
@@ -137,6 +161,292 @@ describe('HermesProvider ACP sessions', () => {
     });
   });
 
+  it('should stream prompt events followed by the result', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-stream' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        for (const text of ['hel', 'lo']) {
+          process.send({
+            jsonrpc: '2.0',
+            method: 'session/update',
+            params: { sessionId: 'sess-stream', update: { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text } } },
+          });
+        }
+        process.respond(message, { stopReason: 'end_turn' });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    const items = [];
+    for await (const item of session.stream('prompt')) items.push(item);
+
+    const last = items.at(-1);
+    assert.ok(last?.type === 'result');
+    assert.equal(last.result.status, 'complete');
+    assert.equal(last.result.finalMessage, 'hello');
+    assert.deepEqual(
+      items.filter(item => item.type === 'output').map(item => item.type === 'output' && item.content),
+      ['hel', 'lo'],
+    );
+    assert.equal(items.length - 1, events.length, 'every onEvent event is also streamed');
+  });
+
+  it('should return validated structured output, re-prompting once when the reply is invalid', async () => {
+    const prompts: string[] = [];
+    const replies = ['Sure, the plan is ready.', '{"steps": ["test", "fix"]}'];
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-schema' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        const prompt = message.params?.prompt as Array<{ text?: string }>;
+        prompts.push(prompt.map(block => block.text ?? '').join('\n'));
+        process.send({
+          jsonrpc: '2.0',
+          method: 'session/update',
+          params: { sessionId: 'sess-schema', update: { sessionUpdate: 'agent_message_chunk', content: { type: 'text', text: replies.shift() } } },
+        });
+        process.respond(message, { stopReason: 'end_turn' });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+    });
+
+    const result = await session.execute('Plan the fix', {
+      outputSchema: { type: 'object', properties: { steps: { type: 'array', items: { type: 'string' } } }, required: ['steps'] },
+    });
+
+    assert.equal(result.status, 'complete');
+    assert.deepEqual(result.data, { steps: ['test', 'fix'] });
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[0], /^Plan the fix\n\n.*JSON Schema/s);
+    assert.match(prompts[1], /did not match the required JSON Schema/);
+  });
+
+  it('should emit each ACP plan update as a structured snapshot', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-plan' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        const updates = [
+          { sessionUpdate: 'plan', entries: [
+            { content: 'Find the bug', status: 'in_progress', priority: 'high' },
+            { content: 'Fix it', status: 'pending', priority: 'medium' },
+          ] },
+          { sessionUpdate: 'plan', entries: [
+            { content: 'Find the bug', status: 'completed', priority: 'high' },
+            { content: 'Fix it', status: 'in_progress', priority: 'medium' },
+          ] },
+        ];
+        for (const update of updates) {
+          process.send({ jsonrpc: '2.0', method: 'session/update', params: { sessionId: 'sess-plan', update } });
+        }
+        process.respond(message, { stopReason: 'end_turn' });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    await session.execute('prompt');
+
+    const plans = events.filter(event => event.type === 'plan');
+    assert.equal(plans.length, 2);
+    assert.deepEqual(plans[1].metadata?.plan, [
+      { content: 'Find the bug', status: 'completed', priority: 'high' },
+      { content: 'Fix it', status: 'in_progress', priority: 'medium' },
+    ]);
+    assert.equal(plans[1].content, '[x] Find the bug\n[~] Fix it');
+    assert.ok(!events.some(event => event.type === 'thinking'), 'plans are no longer flattened into thinking');
+  });
+
+  it('should attach a unified diff from ACP diff content to file edits', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-diff' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        process.send({
+          jsonrpc: '2.0',
+          method: 'session/update',
+          params: {
+            sessionId: 'sess-diff',
+            update: {
+              sessionUpdate: 'tool_call',
+              toolCallId: 'edit-1',
+              title: 'Edit README.md',
+              kind: 'edit',
+              status: 'completed',
+              content: [{ type: 'diff', path: '/tmp/project/README.md', oldText: '# Old\n', newText: '# New\n' }],
+            },
+          },
+        });
+        process.respond(message, { stopReason: 'end_turn' });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    await session.execute('prompt');
+
+    const edit = events.find(event => event.type === 'file_write');
+    assert.equal(edit?.metadata?.file, '/tmp/project/README.md', 'diff path stands in for missing locations');
+    assert.equal(
+      edit?.metadata?.diff,
+      '--- /tmp/project/README.md\n+++ /tmp/project/README.md\n@@ -1 +1 @@\n-# Old\n+# New',
+    );
+  });
+
+  it('should correlate tool call updates with lifecycle metadata', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-tools' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        const updates = [
+          { sessionUpdate: 'tool_call', toolCallId: 'tc-1', title: 'Run tests', kind: 'execute', status: 'pending', rawInput: { command: 'npm test' } },
+          { sessionUpdate: 'tool_call_update', toolCallId: 'tc-1', status: 'in_progress' },
+          { sessionUpdate: 'tool_call_update', toolCallId: 'tc-1', status: 'failed', rawOutput: 'exit 1' },
+        ];
+        for (const update of updates) {
+          process.send({ jsonrpc: '2.0', method: 'session/update', params: { sessionId: 'sess-tools', update } });
+        }
+        process.respond(message, { stopReason: 'end_turn' });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    await session.execute('prompt');
+
+    const toolEvents = events.filter(event => event.metadata?.toolCallId === 'tc-1');
+    assert.deepEqual(toolEvents.map(event => event.metadata?.toolStatus), ['started', 'running', 'failed']);
+    assert.ok(toolEvents.every(event => event.metadata?.toolName === 'Run tests'));
+    const startedAt = toolEvents[0].metadata?.startedAt;
+    assert.ok(typeof startedAt === 'number');
+    assert.ok(toolEvents.every(event => event.metadata?.startedAt === startedAt));
+    assert.ok((toolEvents[2].metadata?.endedAt ?? 0) >= startedAt);
+  });
+
+  it('should pass each finished tool call to onPostToolUse once per prompt, named by its kind', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-post' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        const updates = [
+          { sessionUpdate: 'tool_call', toolCallId: 'tc-1', title: 'Read config', kind: 'read', status: 'pending', rawInput: { path: '.env' } },
+          { sessionUpdate: 'tool_call_update', toolCallId: 'tc-1', status: 'completed', content: [{ type: 'content', content: { type: 'text', text: 'TOKEN=abc' } }] },
+          { sessionUpdate: 'tool_call_update', toolCallId: 'tc-1', status: 'completed', content: [{ type: 'content', content: { type: 'text', text: 'TOKEN=abc' } }] },
+        ];
+        for (const update of updates) {
+          process.send({ jsonrpc: '2.0', method: 'session/update', params: { sessionId: 'sess-post', update } });
+        }
+        process.respond(message, { stopReason: 'end_turn' });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const calls: Array<[AgentToolCall, AgentToolResult]> = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+      hooks: { onPostToolUse: (toolCall, result) => { calls.push([toolCall, result]); } },
+    });
+
+    await session.execute('prompt');
+    // Agents may number tool calls per prompt, so the next prompt's tc-1 is a new call
+    await session.execute('again');
+
+    const call: [AgentToolCall, AgentToolResult] = [
+      { toolName: 'read', toolCallId: 'tc-1', agentType: 'hermes', sessionId: 'sess-post', contextId: 'ctx-1' },
+      { output: 'TOKEN=abc', isError: false },
+    ];
+    assert.deepEqual(calls, [call, call]);
+  });
+
+  it('should report prompt token usage on the result', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, { sessionId: 'sess-usage' });
+        return;
+      }
+      if (message.method === 'session/prompt') {
+        process.respond(message, {
+          stopReason: 'end_turn',
+          usage: { inputTokens: 120, outputTokens: 30, cachedReadTokens: 80, thoughtTokens: 12, totalTokens: 150 },
+        });
+      }
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const events: AgentEvent[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-1',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: event => events.push(event),
+    });
+
+    const result = await session.execute('prompt');
+
+    const expected = { inputTokens: 120, outputTokens: 30, cachedInputTokens: 80, reasoningTokens: 12 };
+    assert.deepEqual(result.usage, expected);
+    assert.deepEqual(events.find(event => event.type === 'usage')?.metadata?.usage, expected);
+  });
+
   it('should resume a session and avoid duplicating the system prompt', async () => {
     const promptTexts: string[] = [];
     let resumeParams: Record<string, unknown> | undefined;
@@ -160,6 +470,117 @@ describe('HermesProvider ACP sessions', () => {
     });
   });
 
+  it('should serve custom tools to the agent as an HTTP MCP server', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitializeRequest(message, process, {
+        protocolVersion: 1,
+        agentCapabilities: { mcpCapabilities: { http: true } },
+      })) return;
+      if (message.method === 'session/new') process.respond(message, { sessionId: 'sess-tools' });
+      if (message.method === 'session/close') process.respond(message, {});
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const calls: unknown[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-tools',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+      tools: [{
+        name: 'lookup_ticket',
+        description: 'Look up a ticket',
+        handler: (args, caller) => { calls.push({ args, caller }); return 'open'; },
+      }],
+    });
+
+    const [server] = (fake.messages.find(message => message.method === 'session/new')?.params?.mcpServers ?? []) as Array<Record<string, any>>;
+    assert.equal(server.type, 'http');
+    assert.equal(server.name, 'agent-tools');
+    const response = await fetch(server.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [server.headers[0].name]: server.headers[0].value },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'lookup_ticket', arguments: { id: 'T-1' } } }),
+    });
+    assert.equal((await response.json()).result.content[0].text, 'open');
+    assert.deepEqual(calls, [{ args: { id: 'T-1' }, caller: { agentType: 'hermes', sessionId: 'sess-tools', contextId: 'ctx-tools' } }]);
+
+    await session.destroy();
+    await assert.rejects(fetch(server.url, { method: 'POST', body: '{}' }));
+  });
+
+  it('should pass session MCP servers in session/new, replacing provider servers of the same name', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitializeRequest(message, process, {
+        protocolVersion: 1,
+        agentCapabilities: { mcpCapabilities: { http: true } },
+      })) return;
+      if (message.method === 'session/new') process.respond(message, { sessionId: 'sess-mcp' });
+    });
+    const provider = new HermesProvider({
+      command: 'hermes',
+      spawn: () => fake as never,
+      mcpServers: [
+        { name: 'docs', command: 'docs-mcp', args: [], env: [] },
+        { name: 'git', command: 'git-mcp', args: [], env: [] },
+      ],
+    });
+    await provider.start();
+    await provider.createSession({
+      contextId: 'ctx-mcp',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+      mcpServers: {
+        docs: { type: 'http', url: 'https://docs.internal/mcp', headers: { 'X-Key': 'k' } },
+        events: { type: 'sse', url: 'https://events.internal/sse' },
+      },
+    });
+
+    const servers = fake.messages.find(message => message.method === 'session/new')?.params?.mcpServers;
+    assert.deepEqual(servers, [
+      { name: 'git', command: 'git-mcp', args: [], env: [] },
+      { type: 'http', name: 'docs', url: 'https://docs.internal/mcp', headers: [{ name: 'X-Key', value: 'k' }] },
+    ]);
+    await provider.stop();
+  });
+
+  it('should switch the ACP session to the mode matching the session mode', async () => {
+    const fake = new FakeAcpProcess((message, process) => {
+      if (respondToInitialize(message, process)) return;
+      if (message.method === 'session/new') {
+        process.respond(message, {
+          sessionId: 'sess-mode',
+          modes: {
+            currentModeId: 'default',
+            availableModes: [
+              { id: 'default', name: 'Default' },
+              { id: 'plan', name: 'Plan' },
+              { id: 'yolo', name: 'YOLO' },
+            ],
+          },
+        });
+        return;
+      }
+      if (message.method === 'session/set_mode') process.respond(message, {});
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+
+    await provider.createSession({
+      contextId: 'ctx-mode',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+      mode: 'plan',
+    });
+
+    assert.deepEqual(
+      fake.messages.find(message => message.method === 'session/set_mode')?.params,
+      { sessionId: 'sess-mode', modeId: 'plan' },
+    );
+  });
+
   it('should prefer allow_once for approved permission requests', async () => {
     let permissionResponse: RpcMessage | undefined;
     const fake = createPermissionAcpProcess({
@@ -204,6 +625,59 @@ describe('HermesProvider ACP sessions', () => {
     });
   });
 
+  it('should await an async permission hook with the normalized request', async () => {
+    let permissionResponse: RpcMessage | undefined;
+    const fake = createPermissionAcpProcess({
+      initialize: respondToInitialize,
+      sessionId: 'sess-async',
+      requestId: 'perm-3',
+      toolCall: {
+        toolCallId: 'tc-2',
+        kind: 'execute',
+        title: 'Run shell',
+        rawInput: { command: 'rm -rf build' },
+        locations: [{ path: '/tmp/project/build' }],
+      },
+      permissionOptions: [
+        { kind: 'allow_once', name: 'Once', optionId: 'once' },
+        { kind: 'reject_once', name: 'No', optionId: 'no' },
+      ],
+      captureResponse: message => { permissionResponse = message; },
+    });
+    const provider = createStartedProvider(fake);
+    await provider.start();
+    const requests: AgentPermissionRequest[] = [];
+    const session = await provider.createSession({
+      contextId: 'ctx-perm',
+      workingDirectory: '/tmp/project',
+      systemPrompt: '',
+      onEvent: () => {},
+      hooks: {
+        onPermissionRequest: async request => {
+          requests.push(request);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return { kind: 'denied-by-rules' };
+        },
+      },
+    });
+
+    await session.execute('prompt');
+
+    assert.deepEqual(requests, [{
+      kind: 'shell',
+      toolName: 'execute',
+      toolCallId: 'tc-2',
+      command: 'rm -rf build',
+      paths: ['/tmp/project/build'],
+      title: 'Run shell',
+      rawInput: { command: 'rm -rf build' },
+      agentType: 'hermes',
+      sessionId: 'sess-async',
+      contextId: 'ctx-perm',
+    }]);
+    assert.deepEqual(permissionResponse?.result, { outcome: { outcome: 'selected', optionId: 'no' } });
+  });
+
   registerAbortAndExitTests({
     providerLabel: 'Hermes',
     createProvider: createStartedProvider,
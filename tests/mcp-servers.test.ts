@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeMcpServers, toAcpMcpServers } from '../src/providers/mcp-servers.ts';
+import type { McpServerConfig } from '../src/types/providers.ts';
+
+describe('normalizeMcpServers', () => {
+  it('should reject invalid servers with the server name in the message', () => {
+    const invalid: Array<[string, unknown, RegExp]> = [
+      ['bad name', { command: 'docs-mcp' }, /Invalid MCP server "bad name": names are/],
+      ['agent-tools', { command: 'docs-mcp' }, /reserved for custom tools/],
+      ['docs', { command: '  ' }, /command is required/],
+      ['docs', { command: 'docs-mcp', args: [1] }, /args must be an array of strings/],
+      ['docs', { command: 'docs-mcp', env: { PORT: 80 } }, /env must map names to strings/],
+      ['docs', { type: 'websocket', command: 'docs-mcp' }, /unknown type "websocket"/],
+      ['search', { type: 'http', url: 'not a url' }, /is not a valid URL/],
+      ['search', { type: 'sse', url: 'file:///etc/passwd' }, /url must be http or https/],
+      ['search', { type: 'http', url: 'https://search.internal/mcp', headers: { 'X-Retry': 3 } }, /headers must map names to strings/],
+    ];
+    for (const [name, server, message] of invalid) {
+      assert.throws(() => normalizeMcpServers({ [name]: server as McpServerConfig }), { message });
+    }
+  });
+
+  it('should give stdio servers a scrubbed environment plus their own env', () => {
+    const previous = process.env.MCP_TEST_SECRET;
+    process.env.MCP_TEST_SECRET = 'do-not-leak';
+    try {
+      const { docs } = normalizeMcpServers({ docs: { command: 'docs-mcp', env: { DOCS_TOKEN: 'scoped' } } });
+      assert.ok(!('url' in docs));
+      const env = docs.env ?? {};
+      assert.equal(env.DOCS_TOKEN, 'scoped');
+      assert.equal(env.PATH, process.env.PATH);
+      assert.equal(env.MCP_TEST_SECRET, undefined);
+    } finally {
+      if (previous === undefined) delete process.env.MCP_TEST_SECRET;
+      else process.env.MCP_TEST_SECRET = previous;
+    }
+  });
+
+  it('should pass remote servers through unchanged', () => {
+    const search: McpServerConfig = { type: 'http', url: 'https://search.internal/mcp', headers: { Authorization: 'Bearer t' } };
+    assert.deepEqual(normalizeMcpServers({ search }), { search });
+    assert.deepEqual(normalizeMcpServers(undefined), {});
+  });
+});
+
+describe('toAcpMcpServers', () => {
+  it('should convert servers and skip remote transports the agent does not support', () => {
+    const servers: Record<string, McpServerConfig> = {
+      docs: { command: 'docs-mcp', args: ['--stdio'], env: { DOCS_TOKEN: 't' } },
+      search: { type: 'http', url: 'https://search.internal/mcp', headers: { 'X-Key': 'k' } },
+      events: { type: 'sse', url: 'https://events.internal/sse' },
+    };
+    assert.deepEqual(toAcpMcpServers(servers, { http: true }, 'test'), [
+      { name: 'docs', command: 'docs-mcp', args: ['--stdio'], env: [{ name: 'DOCS_TOKEN', value: 't' }] },
+      { type: 'http', name: 'search', url: 'https://search.internal/mcp', headers: [{ name: 'X-Key', value: 'k' }] },
+    ]);
+    assert.deepEqual(toAcpMcpServers(servers, undefined, 'test').map(server => server.name), ['docs']);
+  });
+});
@@ -177,10 +177,10 @@ describe('OpenClaw helpers', () => {
       status: 'failed',
     });
     assert.deepEqual(mapOpenClawChatEvent({ state: 'aborted' }), {
-      type: 'error',
-      content: 'OpenClaw execution aborted',
+      type: 'complete',
+      content: '',
       terminal: true,
-      status: 'failed',
+      status: 'cancelled',
     });
   });
 
@@ -223,6 +223,21 @@ describe('OpenClawProvider construction and connect', () => {
     );
   });
 
+  it('should reject plan mode', async () => {
+    const { provider } = await startedProvider();
+    await assert.rejects(
+      () => provider.createSession({
+        contextId: 'ctx-1',
+        workingDirectory: '/tmp',
+        systemPrompt: 'test',
+        onEvent: () => {},
+        mode: 'plan',
+      }),
+      { message: /does not support plan mode/ },
+    );
+    await provider.stop();
+  });
+
   it('should connect to Gateway using token auth', async () => {
     const { provider, socket } = await startedProvider();
     const connect = socket.sent.find(f => f.method === 'connect');
@@ -386,6 +401,9 @@ describe('OpenClawProvider sessions', () => {
 
     const result = await resultPromise;
     assert.equal(result.status, 'complete');
+    assert.equal(result.stopReason, 'end_turn');
+    assert.equal(result.finalMessage, 'done');
+    assert.equal(typeof result.durationMs, 'number');
     assert.equal(session.sessionId, 'main');
     assert.ok(events.some(e => e.type === 'output' && e.content === 'working'));
     assert.ok(events.some(e => e.type === 'complete' && e.content === 'done'));
@@ -535,7 +553,7 @@ describe('OpenClawProvider sessions', () => {
     await provider.stop();
   });
 
-  it('should resolve failed when the Gateway emits an aborted chat event', async () => {
+  it('should resolve cancelled without an error event when the Gateway emits an aborted chat event', async () => {
     const { provider, socket } = await startedProvider();
     const { events, onEvent } = collectEvents();
     const session = await provider.createSession({ contextId: 'ctx-aborted', workingDirectory: '/tmp', systemPrompt: '', onEvent });
@@ -544,9 +562,10 @@ describe('OpenClawProvider sessions', () => {
     await new Promise(resolve => setTimeout(resolve, 0));
     socket.receive({ type: 'event', event: 'chat', payload: { runId: 'run-aborted', sessionKey: 'main', state: 'aborted' } });
     const result = await resultPromise;
-    assert.equal(result.status, 'failed');
-    assert.equal(result.error, 'OpenClaw execution aborted');
-    assert.ok(events.some(event => event.type === 'error' && event.content === 'OpenClaw execution aborted'));
+    assert.equal(result.status, 'cancelled');
+    assert.equal(result.stopReason, 'cancelled');
+    assert.equal(result.error, undefined);
+    assert.ok(!events.some(event => event.type === 'error'));
     await provider.stop();
   });
 
@@ -563,8 +582,24 @@ describe('OpenClawProvider sessions', () => {
     assert.equal(abortFrame.params?.runId, 'run-abort');
     await abortPromise;
     const result = await resultPromise;
-    assert.equal(result.status, 'failed');
-    assert.equal(result.error, 'OpenClaw execution aborted');
+    assert.equal(result.status, 'cancelled');
+    await provider.stop();
+  });
+
+  it('should abort a run whose signal fired before chat.send was acknowledged', async () => {
+    const { provider, socket } = await startedProvider();
+    const session = await provider.createSession({ contextId: 'ctx-1', workingDirectory: '/tmp/project', systemPrompt: '', onEvent: () => {} });
+    const controller = new AbortController();
+
+    const resultPromise = session.execute('Long task', { signal: controller.signal });
+    const sendFrame = await waitForRequest(socket, 'chat.send');
+    controller.abort();
+    socket.respondToFrame(sendFrame, { runId: 'run-late', status: 'started' });
+    const abortFrame = socket.respondToFrame(await waitForRequest(socket, 'chat.abort'), { ok: true, aborted: true, runIds: ['run-late'] });
+    assert.equal(abortFrame.params?.runId, 'run-late');
+    const result = await resultPromise;
+    assert.equal(result.status, 'cancelled');
+    assert.equal(result.stopReason, 'cancelled');
     await provider.stop();
   });
 
@@ -590,7 +625,8 @@ describe('OpenClawProvider sessions', () => {
     socket.respondToFrame(await waitForRequest(socket, 'chat.send'), { runId: 'run-destroy', status: 'started' });
     await new Promise(resolve => setTimeout(resolve, 0));
     await session.destroy();
-    assert.deepEqual(await resultPromise, { status: 'failed', error: 'OpenClaw session destroyed' });
+    const { status, error, stopReason } = await resultPromise;
+    assert.deepEqual({ status, error, stopReason }, { status: 'failed', error: 'OpenClaw session destroyed', stopReason: 'error' });
     await provider.stop();
   });
 
@@ -601,7 +637,8 @@ describe('OpenClawProvider sessions', () => {
     socket.respondToFrame(await waitForRequest(socket, 'chat.send'), { runId: 'run-stop', status: 'started' });
     await new Promise(resolve => setTimeout(resolve, 0));
     await provider.stop();
-    assert.deepEqual(await resultPromise, { status: 'failed', error: 'OpenClaw provider stopped' });
+    const { status, error, stopReason } = await resultPromise;
+    assert.deepEqual({ status, error, stopReason }, { status: 'failed', error: 'OpenClaw provider stopped', stopReason: 'error' });
   });
 });
 
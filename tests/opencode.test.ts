@@ -11,9 +11,10 @@ function collectEvents(
   sessionId: string,
   event: unknown,
   contextId = 'ctx-1',
+  toolStates = new Map<string, 'pending' | 'running'>(),
 ): AgentEvent[] {
   const events: AgentEvent[] = [];
-  mapOpenCodeEvent(sessionId, event as any, contextId, (e) => events.push(e));
+  mapOpenCodeEvent(sessionId, event as any, contextId, (e) => events.push(e), toolStates);
   return events;
 }
 
@@ -55,11 +56,41 @@ describe('OpenCodeProvider construction', () => {
     );
   });
 
-  async function withOpenSseTestServer(test: (baseUrl: string, state: { sseStarted: () => boolean; sseClosed: () => boolean }) => Promise<void>): Promise<void> {
+  it('should refuse a worktree session it cannot keep out of the checkout', async () => {
+    const mod = await import('../src/providers/opencode.ts');
+    const provider = new mod.OpenCodeProvider({ baseUrl: 'http://127.0.0.1:9' });
+    await provider.start();
+    await assert.rejects(
+      () => provider.createSession({
+        contextId: 'ctx-1',
+        workingDirectory: '/work/app/.worktrees/feature',
+        repoPath: '/work/app',
+        systemPrompt: 'test',
+        onEvent: () => {},
+      }),
+      { message: /cannot keep a worktree session out of \/work\/app/ },
+    );
+  });
+
+  type SseTestState = { sseStarted: () => boolean; sseClosed: () => boolean; mcpRequests: string[] };
+
+  async function withOpenSseTestServer(test: (baseUrl: string, state: SseTestState) => Promise<void>): Promise<void> {
     let sseStarted = false;
     let sseClosed = false;
+    const mcpRequests: string[] = [];
 
     const server = http.createServer((req, res) => {
+      if (req.method === 'POST' && req.url?.startsWith('/mcp')) {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          mcpRequests.push(`${req.url} ${body}`.trim());
+          res.setHeader('content-type', 'application/json');
+          res.end(req.url === '/mcp' ? '{}' : 'true');
+        });
+        return;
+      }
+
       if (req.method === 'POST' && req.url === '/session') {
         res.setHeader('content-type', 'application/json');
         res.end(JSON.stringify({ id: 'sess-1' }));
@@ -95,6 +126,7 @@ describe('OpenCodeProvider construction', () => {
       await test(`http://127.0.0.1:${address.port}`, {
         sseStarted: () => sseStarted,
         sseClosed: () => sseClosed,
+        mcpRequests,
       });
     } finally {
       server.closeAllConnections();
@@ -160,6 +192,39 @@ describe('OpenCodeProvider construction', () => {
       assert.equal(state.sseClosed(), true);
     });
   });
+  it('should share MCP servers across sessions and disconnect them with the last one', async () => {
+    const mod = await import('../src/providers/opencode.ts');
+
+    await withOpenSseTestServer(async (baseUrl, state) => {
+      const provider = new mod.OpenCodeProvider({ baseUrl });
+      await provider.start();
+      const config = {
+        contextId: 'ctx-1',
+        workingDirectory: '/tmp',
+        systemPrompt: 'test',
+        onEvent: () => {},
+        mcpServers: {
+          docs: { command: 'docs-mcp', args: ['--stdio'], env: { DOCS_TOKEN: 't' } },
+          search: { type: 'http' as const, url: 'https://search.internal/mcp', headers: { 'X-Key': 'k' } },
+        },
+      };
+      const first = await provider.createSession(config);
+      const second = await provider.createSession(config);
+
+      assert.equal(state.mcpRequests.length, 2);
+      const [docs, search] = state.mcpRequests.map(request => JSON.parse(request.slice('/mcp '.length)));
+      assert.deepEqual(docs.config.command, ['docs-mcp', '--stdio']);
+      assert.equal(docs.config.type, 'local');
+      assert.equal(docs.config.environment.DOCS_TOKEN, 't');
+      assert.deepEqual(search, { name: 'search', config: { type: 'remote', url: 'https://search.internal/mcp', headers: { 'X-Key': 'k' } } });
+
+      await first.destroy();
+      assert.equal(state.mcpRequests.length, 2);
+      await second.destroy();
+      assert.deepEqual(state.mcpRequests.slice(2), ['/mcp/docs/disconnect', '/mcp/search/disconnect']);
+      await provider.stop();
+    });
+  });
 });
 
 // ── SSE event mapping tests ──
@@ -252,6 +317,53 @@ describe('mapOpenCodeEvent', () => {
     assert.equal(events[0].content, 'file1.ts\nfile2.ts');
   });
 
+  it('should correlate tool lifecycle metadata by callID', () => {
+    const toolStates = new Map<string, 'pending' | 'running'>();
+    const update = (state: Record<string, unknown>) => collectEvents(SESSION_ID, {
+      type: 'message.part.updated',
+      properties: {
+        part: { id: 'p3', sessionID: SESSION_ID, messageID: 'm1', type: 'tool', tool: 'bash', callID: 'c9', state },
+      },
+    }, 'ctx-1', toolStates);
+
+    const pending = update({ status: 'pending', input: {}, raw: '' });
+    const running = update({ status: 'running', input: { command: 'ls' }, time: { start: 100 } });
+    const completed = update({
+      status: 'completed', input: { command: 'ls' }, output: 'ok',
+      title: 'bash', metadata: {}, time: { start: 100, end: 350 },
+    });
+
+    assert.equal(pending[0].type, 'command');
+    assert.equal(pending[0].metadata?.toolStatus, 'started');
+    assert.deepEqual(running[0].metadata, {
+      command: 'bash', toolCallId: 'c9', toolName: 'bash', toolStatus: 'running', startedAt: 100,
+    });
+    assert.deepEqual(completed[0].metadata, {
+      toolCallId: 'c9', toolName: 'bash', toolStatus: 'completed', startedAt: 100, endedAt: 350, duration: 250,
+    });
+    assert.equal(toolStates.size, 0);
+  });
+
+  it('should report each tool status once however often OpenCode resends the part', () => {
+    const toolStates = new Map<string, 'pending' | 'running'>();
+    const update = (callID: string, state: Record<string, unknown>) => collectEvents(SESSION_ID, {
+      type: 'message.part.updated',
+      properties: {
+        part: { id: `p-${callID}`, sessionID: SESSION_ID, messageID: 'm1', type: 'tool', tool: 'bash', callID, state },
+      },
+    }, 'ctx-1', toolStates);
+    const pending = { status: 'pending', input: {}, raw: '' };
+    const running = { status: 'running', input: { command: 'ls' }, time: { start: 100 } };
+
+    const statuses = [
+      ...update('c1', pending), ...update('c1', pending), ...update('c1', running), ...update('c1', running),
+      // A call whose pending update was missed still starts once
+      ...update('c2', running), ...update('c2', running),
+    ].map(event => [event.metadata?.toolCallId, event.metadata?.toolStatus]);
+
+    assert.deepEqual(statuses, [['c1', 'started'], ['c1', 'running'], ['c2', 'started']]);
+  });
+
   it('should map tool error state to error event', () => {
     const events = collectEvents(SESSION_ID, {
       type: 'message.part.updated',
@@ -271,6 +383,8 @@ describe('mapOpenCodeEvent', () => {
     assert.equal(events.length, 1);
     assert.equal(events[0].type, 'error');
     assert.equal(events[0].content, 'Permission denied');
+    assert.equal(events[0].metadata?.toolCallId, 'c1');
+    assert.equal(events[0].metadata?.toolStatus, 'failed');
   });
 
   it('should map write tool to file_write event type', () => {
@@ -303,6 +417,42 @@ describe('mapOpenCodeEvent', () => {
     assert.equal(events[0].type, 'file_write');
   });
 
+  it('should attach the edit tool\'s own diff to its completed event', () => {
+    const input = { filePath: 'src/index.ts', oldString: 'return 1;', newString: 'return 2;' };
+    const running = collectEvents(SESSION_ID, {
+      type: 'message.part.updated',
+      properties: {
+        part: {
+          id: 'p6', sessionID: SESSION_ID, messageID: 'm1',
+          type: 'tool', tool: 'edit', callID: 'c4',
+          state: { status: 'running', input, time: { start: 1 } },
+        },
+      },
+    });
+    const completed = collectEvents(SESSION_ID, {
+      type: 'message.part.updated',
+      properties: {
+        part: {
+          id: 'p6', sessionID: SESSION_ID, messageID: 'm1',
+          type: 'tool', tool: 'edit', callID: 'c4',
+          state: {
+            status: 'completed', input, output: '', title: 'src/index.ts',
+            metadata: {
+              diff: 'Index: src/index.ts\n===================================================================\n'
+                + '--- src/index.ts\n+++ src/index.ts\n@@ -4,1 +4,1 @@\n-return 1;\n+return 2;\n',
+            },
+            time: { start: 1, end: 2 },
+          },
+        },
+      },
+    });
+
+    // The running input only has the replaced snippet, whose line numbers aren't the file's
+    assert.equal(running[0].metadata?.diff, undefined);
+    assert.equal(completed[0].metadata?.file, 'src/index.ts');
+    assert.equal(completed[0].metadata?.diff, '--- src/index.ts\n+++ src/index.ts\n@@ -4,1 +4,1 @@\n-return 1;\n+return 2;');
+  });
+
   it('should map step-start to thinking event', () => {
     const events = collectEvents(SESSION_ID, {
       type: 'message.part.updated',
@@ -334,6 +484,29 @@ describe('mapOpenCodeEvent', () => {
     assert.equal(events[1].content, 'src/b.ts');
   });
 
+  it('should map step-finish part to usage event', () => {
+    const events = collectEvents(SESSION_ID, {
+      type: 'message.part.updated',
+      properties: {
+        part: {
+          id: 'p8', sessionID: SESSION_ID, messageID: 'm1',
+          type: 'step-finish', reason: 'stop', cost: 0.0125,
+          tokens: { input: 1200, output: 300, reasoning: 40, cache: { read: 800, write: 100 } },
+        },
+      },
+    });
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, 'usage');
+    assert.deepEqual(events[0].metadata?.usage, {
+      inputTokens: 1200,
+      outputTokens: 300,
+      cachedInputTokens: 800,
+      cacheWriteTokens: 100,
+      reasoningTokens: 40,
+      costUsd: 0.0125,
+    });
+  });
+
   it('should map session.error to error event', () => {
     const events = collectEvents(SESSION_ID, {
       type: 'session.error',
@@ -439,7 +612,7 @@ describe('mapOpenCodeEvent', () => {
     assert.equal(events[0].contextId, 'my-context');
   });
 
-  it('should handle tool pending state (no event emitted)', () => {
+  it('should map tool pending state to a started event', () => {
     const events = collectEvents(SESSION_ID, {
       type: 'message.part.updated',
       properties: {
@@ -450,7 +623,9 @@ describe('mapOpenCodeEvent', () => {
         },
       },
     });
-    assert.equal(events.length, 0);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].type, 'command');
+    assert.equal(events[0].metadata?.toolStatus, 'started');
   });
 
   it('should handle session.error with error that has no data.message', () => {
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { askPermission, hasPermissionCheck, permissionKindForTool, readInputCommand, readInputPaths, readInputUrls } from '../src/providers/permissions.ts';
+import type { AgentPermissionRequest } from '../src/types/providers.ts';
+
+const request: AgentPermissionRequest = {
+  kind: 'shell',
+  command: 'npm test',
+  agentType: 'claude',
+  sessionId: null,
+  contextId: 'ctx-1',
+};
+const workingDirectory = '/work/app';
+
+describe('askPermission', () => {
+  it('should use the fallback when no hook is configured', async () => {
+    assert.deepEqual(await askPermission({ workingDirectory }, request, { kind: 'approved' }), { kind: 'approved' });
+    assert.deepEqual(await askPermission({ workingDirectory, hooks: {} }, request, { kind: 'denied-by-rules' }), { kind: 'denied-by-rules' });
+  });
+
+  it('should await an async hook', async () => {
+    const decision = await askPermission({
+      workingDirectory,
+      hooks: { onPermissionRequest: async req => ({ kind: req.command === 'npm test' ? 'approved' : 'denied-by-rules' }) },
+    }, request, { kind: 'denied-by-rules' });
+    assert.deepEqual(decision, { kind: 'approved' });
+  });
+
+  it('should deny when the hook throws', async () => {
+    const decision = await askPermission({
+      workingDirectory,
+      hooks: { onPermissionRequest: async () => { throw new Error('policy service down'); } },
+    }, request, { kind: 'approved' });
+    assert.deepEqual(decision, { kind: 'denied-by-rules', message: 'Permission hook failed: policy service down' });
+  });
+
+  it('should let the policy decide before the hook', async () => {
+    const asked: AgentPermissionRequest[] = [];
+    const config = {
+      workingDirectory,
+      permissionPolicy: {
+        rules: [
+          { action: 'allow' as const, kind: 'shell', command: '^npm (test|run lint)$' },
+          { action: 'deny' as const, kind: 'shell', command: 'rm -rf', reason: 'No recursive deletes' },
+        ],
+      },
+      hooks: {
+        onPermissionRequest: (req: AgentPermissionRequest) => {
+          asked.push(req);
+          return { kind: 'approved' as const };
+        },
+      },
+    };
+
+    assert.deepEqual(await askPermission(config, request, { kind: 'denied-by-rules' }), {
+      kind: 'approved',
+      message: 'Allowed by policy rule 1: allow kind shell, command /^npm (test|run lint)$/',
+    });
+    assert.deepEqual(await askPermission(config, { ...request, command: 'rm -rf dist' }, { kind: 'approved' }), {
+      kind: 'denied-by-rules',
+      message: 'Denied by policy rule 2: No recursive deletes',
+    });
+    assert.equal(asked.length, 0);
+
+    assert.deepEqual(await askPermission(config, { ...request, command: 'make' }, { kind: 'denied-by-rules' }), { kind: 'approved' });
+    assert.equal(asked.length, 1);
+    assert.equal(asked[0].policy?.action, 'ask');
+    assert.equal(asked[0].policy?.explanation, 'Approval required by policy default: no rule matches shell make');
+  });
+
+  it('should deny writes and shell commands in plan mode before the policy or hook', async () => {
+    const config = {
+      workingDirectory,
+      mode: 'plan' as const,
+      permissionPolicy: { rules: [{ action: 'allow' as const }] },
+      hooks: { onPermissionRequest: () => ({ kind: 'approved' as const }) },
+    };
+    assert.deepEqual(await askPermission(config, request, { kind: 'approved' }), {
+      kind: 'denied-by-rules',
+      message: 'shell is not allowed in plan mode',
+    });
+    assert.deepEqual(await askPermission(config, { ...request, kind: 'write', toolName: 'Edit' }, { kind: 'approved' }), {
+      kind: 'denied-by-rules',
+      message: 'Edit is not allowed in plan mode',
+    });
+    assert.equal((await askPermission(config, { ...request, kind: 'read' }, { kind: 'denied-by-rules' })).kind, 'approved');
+    assert.equal(hasPermissionCheck({ workingDirectory, mode: 'plan' }), true);
+    assert.equal(hasPermissionCheck({ workingDirectory, mode: 'edit' }), false);
+  });
+
+  it('should deny calls into the main checkout of a worktree session', async () => {
+    const decision = await askPermission({
+      workingDirectory,
+      repoPath: '/work/main',
+      hooks: { onPermissionRequest: () => ({ kind: 'approved' }) },
+    }, { ...request, kind: 'write', command: undefined, paths: ['/work/main/src/a.ts'] }, { kind: 'approved' });
+    assert.deepEqual(decision, {
+      kind: 'denied-by-rules',
+      message: '/work/main/src/a.ts is in the main checkout; this session works in /work/app',
+    });
+  });
+
+  it('should deny an ask verdict when there is no hook', async () => {
+    const decision = await askPermission({ workingDirectory, permissionPolicy: { rules: [] } }, request, { kind: 'approved' });
+    assert.equal(decision.kind, 'denied-by-rules');
+    assert.match(decision.message ?? '', /no onPermissionRequest hook/);
+  });
+});
+
+describe('permission request helpers', () => {
+  it('should classify SDK tool names into permission kinds', () => {
+    assert.equal(permissionKindForTool('Bash'), 'shell');
+    assert.equal(permissionKindForTool('Edit'), 'write');
+    assert.equal(permissionKindForTool('Read'), 'read');
+    assert.equal(permissionKindForTool('Glob'), 'read');
+    assert.equal(permissionKindForTool('WebFetch'), 'url');
+    assert.equal(permissionKindForTool('mcp__github__create_issue'), 'mcp');
+    assert.equal(permissionKindForTool('TodoWrite'), 'other');
+  });
+
+  it('should read commands and paths from tool input', () => {
+    assert.equal(readInputCommand({ command: ['git', 'status'] }), 'git status');
+    assert.equal(readInputCommand({ cmd: 'ls' }), 'ls');
+    assert.equal(readInputCommand('ls'), undefined);
+    assert.deepEqual(readInputPaths({ file_path: '/a.ts', paths: ['/b.ts', '/a.ts', 3] }), ['/a.ts', '/b.ts']);
+    assert.deepEqual(readInputUrls({ url: 'https://a.dev', urls: ['https://b.dev', 'https://a.dev'] }), ['https://a.dev', 'https://b.dev']);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describePlan, planFromChecklist, planFromTodoWrite } from '../src/providers/plan.ts';
+
+describe('plan helpers', () => {
+  it('should map Claude TodoWrite input to plan entries', () => {
+    const plan = planFromTodoWrite({
+      todos: [
+        { content: 'Reproduce the bug', status: 'completed', activeForm: 'Reproducing the bug' },
+        { content: 'Fix the parser', status: 'in_progress', priority: 'high' },
+        { content: 'Add a test', status: 'something-new' },
+        { status: 'pending' },
+      ],
+    });
+
+    assert.deepEqual(plan, [
+      { content: 'Reproduce the bug', status: 'completed' },
+      { content: 'Fix the parser', status: 'in_progress', priority: 'high' },
+      { content: 'Add a test', status: 'pending' },
+    ]);
+    assert.equal(planFromTodoWrite({ file_path: '/tmp/a' }), undefined);
+  });
+
+  it('should parse a markdown checklist', () => {
+    const plan = planFromChecklist('# Todo\n- [x] Read the code\n- [ ] Write the fix\n* [~] Run tests\nnotes');
+
+    assert.deepEqual(plan, [
+      { content: 'Read the code', status: 'completed' },
+      { content: 'Write the fix', status: 'pending' },
+      { content: 'Run tests', status: 'in_progress' },
+    ]);
+  });
+
+  it('should describe a plan as a readable checklist', () => {
+    assert.equal(
+      describePlan([
+        { content: 'a', status: 'completed' },
+        { content: 'b', status: 'in_progress' },
+        { content: 'c', status: 'pending' },
+      ]),
+      '[x] a\n[~] b\n[ ] c',
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  evaluatePermissionPolicy,
+  loadPermissionPolicy,
+  matchGlob,
+  parsePermissionPolicy,
+} from '../src/providers/policy.ts';
+import type { AgentPermissionRequest, PermissionPolicy } from '../src/types/providers.ts';
+
+const workingDirectory = '/work/app';
+
+function request(fields: Partial<AgentPermissionRequest>): AgentPermissionRequest {
+  return { kind: 'other', agentType: 'copilot', sessionId: 's-1', contextId: 'ctx-1', ...fields };
+}
+
+describe('matchGlob', () => {
+  it('should keep * within a segment and let ** span segments', () => {
+    assert.equal(matchGlob('src/*.ts', 'src/index.ts'), true);
+    assert.equal(matchGlob('src/*.ts', 'src/providers/claude.ts'), false);
+    assert.equal(matchGlob('src/**/*.ts', 'src/index.ts'), true);
+    assert.equal(matchGlob('src/**/*.ts', 'src/providers/claude.ts'), true);
+    assert.equal(matchGlob('src/**', 'src/a/b'), true);
+    assert.equal(matchGlob('file?.md', 'file1.md'), true);
+  });
+
+  it('should match a glob without a slash against the file name at any depth', () => {
+    assert.equal(matchGlob('.env*', 'config/.env.local'), true);
+    assert.equal(matchGlob('*.pem', 'keys/deploy.pem'), true);
+    assert.equal(matchGlob('*.pem', 'keys/deploy.pem.txt'), false);
+  });
+});
+
+describe('evaluatePermissionPolicy', () => {
+  const policy: PermissionPolicy = {
+    rules: [
+      { action: 'allow', kind: 'read' },
+      { action: 'allow', kind: 'write', paths: ['src/**', 'tests/**'] },
+      { action: 'deny', paths: ['.env*', '/etc/**'], reason: 'Secrets and system files are off limits' },
+      { action: 'ask', kind: 'shell', command: '^git push' },
+      { action: 'allow', kind: 'shell', command: '^git ' },
+      { action: 'allow', kind: 'url', urls: ['*.npmjs.org', 'https://docs.github.com/**'] },
+    ],
+    defaultAction: 'deny',
+  };
+
+  it('should resolve request paths against the working directory', () => {
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'write', paths: ['src/a.ts'] }), workingDirectory).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'write', paths: ['/work/app/tests/a.test.ts'] }), workingDirectory).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'write', paths: ['/work/other/src/a.ts'] }), workingDirectory).action, 'deny');
+  });
+
+  it('should never match a relative glob against a path outside the working directory', () => {
+    const narrow: PermissionPolicy = { rules: [{ action: 'allow', kind: 'write', paths: ['*.ts'] }], defaultAction: 'deny' };
+    const workDir = '/work/repo';
+    assert.equal(evaluatePermissionPolicy(narrow, request({ kind: 'write', paths: ['src/a.ts'] }), workDir).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(narrow, request({ kind: 'write', paths: ['/home/user/.config/evil.ts'] }), workDir).action, 'deny');
+    assert.equal(evaluatePermissionPolicy(narrow, request({ kind: 'write', paths: ['../../etc/x.ts'] }), workDir).action, 'deny');
+
+    const everything: PermissionPolicy = { rules: [{ action: 'allow', paths: ['**'] }], defaultAction: 'deny' };
+    assert.equal(evaluatePermissionPolicy(everything, request({ kind: 'read', paths: ['src/a/b.ts'] }), workDir).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(everything, request({ kind: 'read', paths: ['/etc/shadow'] }), workDir).action, 'deny');
+  });
+
+  it('should let an absolute glob match outside the working directory', () => {
+    const shared: PermissionPolicy = { rules: [{ action: 'allow', kind: 'read', paths: ['/work/shared/**'] }], defaultAction: 'deny' };
+    assert.equal(evaluatePermissionPolicy(shared, request({ kind: 'read', paths: ['../shared/lib/a.ts'] }), workingDirectory).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(shared, request({ kind: 'read', paths: ['/work/other/a.ts'] }), workingDirectory).action, 'deny');
+  });
+
+  it('should require every path to match an allow rule but any path to match a deny rule', () => {
+    const mixed = request({ kind: 'write', paths: ['src/a.ts', 'README.md'] });
+    assert.equal(evaluatePermissionPolicy(policy, mixed, workingDirectory).action, 'deny');
+
+    const secret = evaluatePermissionPolicy(policy, request({ kind: 'read', paths: ['src/a.ts', 'config/.env'] }), workingDirectory);
+    assert.deepEqual(secret, {
+      action: 'deny',
+      rule: policy.rules[2],
+      explanation: 'Denied by policy rule 3: Secrets and system files are off limits',
+    });
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'read', paths: ['/etc/passwd'] }), workingDirectory).action, 'deny');
+  });
+
+  it('should prefer deny over ask over allow regardless of rule order', () => {
+    const push = evaluatePermissionPolicy(policy, request({ kind: 'shell', command: 'git push origin main' }), workingDirectory);
+    assert.equal(push.action, 'ask');
+    assert.equal(push.explanation, 'Approval required by policy rule 4: ask kind shell, command /^git push/');
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'shell', command: 'git status' }), workingDirectory).action, 'allow');
+  });
+
+  it('should match URLs by host glob or full URL glob', () => {
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'url', urls: ['https://registry.npmjs.org/tsx'] }), workingDirectory).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'url', urls: ['https://docs.github.com/en/rest'] }), workingDirectory).action, 'allow');
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'url', urls: ['https://github.com/en/rest'] }), workingDirectory).action, 'deny');
+    assert.equal(evaluatePermissionPolicy(policy, request({ kind: 'url' }), workingDirectory).action, 'deny');
+  });
+
+  it('should fall back to the default action with an explanation', () => {
+    assert.deepEqual(evaluatePermissionPolicy(policy, request({ kind: 'mcp', toolName: 'create_issue' }), workingDirectory), {
+      action: 'deny',
+      explanation: 'Denied by policy default: no rule matches mcp create_issue',
+    });
+    assert.equal(evaluatePermissionPolicy({ rules: [] }, request({}), workingDirectory).action, 'ask');
+  });
+
+  it('should match tool names case-insensitively', () => {
+    const toolPolicy: PermissionPolicy = { rules: [{ action: 'deny', tool: ['WebSearch'] }], defaultAction: 'allow' };
+    assert.equal(evaluatePermissionPolicy(toolPolicy, request({ toolName: 'websearch' }), workingDirectory).action, 'deny');
+    assert.equal(evaluatePermissionPolicy(toolPolicy, request({}), workingDirectory).action, 'allow');
+  });
+});
+
+describe('parsePermissionPolicy', () => {
+  it('should accept a valid policy document', () => {
+    const policy = parsePermissionPolicy({ rules: [{ action: 'deny', kind: 'shell', command: 'sudo' }], defaultAction: 'allow' });
+    assert.deepEqual(policy, { rules: [{ action: 'deny', kind: 'shell', command: 'sudo' }], defaultAction: 'allow' });
+  });
+
+  it('should keep only the rule fields it validated', () => {
+    const policy = parsePermissionPolicy({
+      rules: [{ action: 'ask', tool: ['Bash'], paths: ['src/**'], urls: ['github.com'], reason: 'Review', comment: 'not a matcher' }],
+    });
+    assert.deepEqual(policy.rules, [{ action: 'ask', tool: ['Bash'], paths: ['src/**'], urls: ['github.com'], reason: 'Review' }]);
+  });
+
+  it('should reject malformed policies with the offending field', () => {
+    assert.throws(() => parsePermissionPolicy([]), /expected an object with a rules array/);
+    assert.throws(() => parsePermissionPolicy({ rules: [{ action: 'maybe' }] }), /rules\[0\]\.action/);
+    assert.throws(() => parsePermissionPolicy({ rules: [{ action: 'deny', paths: 'src/**' }] }), /rules\[0\]\.paths/);
+    assert.throws(() => parsePermissionPolicy({ rules: [{ action: 'deny', command: '(' }] }), /rules\[0\]\.command is not a valid regular expression/);
+    assert.throws(() => parsePermissionPolicy({ rules: [], defaultAction: 'yes' }), /defaultAction/);
+  });
+
+  it('should load a JSON policy file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'policy-test-'));
+    try {
+      const file = join(dir, 'policy.json');
+      await writeFile(file, JSON.stringify({ rules: [{ action: 'allow', kind: 'read' }] }));
+      assert.deepEqual(await loadPermissionPolicy(file), { rules: [{ action: 'allow', kind: 'read' }] });
+
+      await writeFile(file, '{ not json');
+      await assert.rejects(loadPermissionPolicy(file), /Invalid permission policy/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
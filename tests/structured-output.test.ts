@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyOutputSchema,
+  parseJsonOutput,
+  runWithOutputSchema,
+  validateJsonSchema,
+} from '../src/providers/structured-output.ts';
+import type { AgentResult } from '../src/types/providers.ts';
+
+const findingsSchema = {
+  type: 'object',
+  properties: {
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          line: { type: 'integer' },
+          severity: { enum: ['low', 'high'] },
+        },
+        required: ['file', 'severity'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['findings'],
+};
+
+describe('validateJsonSchema', () => {
+  it('should accept a conforming value', () => {
+    const value = { findings: [{ file: 'a.ts', line: 3, severity: 'high' }] };
+    assert.deepEqual(validateJsonSchema(value, findingsSchema), []);
+  });
+
+  it('should report every violation with its path', () => {
+    const value = { findings: [{ file: 1, line: 2.5, severity: 'medium', extra: true }] };
+    assert.deepEqual(validateJsonSchema(value, findingsSchema), [
+      '$.findings[0].file: expected string, got number',
+      '$.findings[0].line: expected integer, got number',
+      '$.findings[0].severity: expected one of "low", "high"',
+      '$.findings[0].extra: is not an allowed property',
+    ]);
+    assert.deepEqual(validateJsonSchema({}, findingsSchema), ['$.findings: is required']);
+  });
+
+  it('should support type unions and anyOf', () => {
+    assert.deepEqual(validateJsonSchema(null, { type: ['string', 'null'] }), []);
+    assert.deepEqual(validateJsonSchema(1, { anyOf: [{ type: 'string' }, { type: 'boolean' }] }), [
+      '$: does not match any allowed schema',
+    ]);
+  });
+});
+
+describe('parseJsonOutput', () => {
+  it('should parse bare, fenced, and prose-wrapped JSON', () => {
+    assert.deepEqual(parseJsonOutput('{"a":1}'), { a: 1 });
+    assert.deepEqual(parseJsonOutput('```json\n[1, 2]\n```'), [1, 2]);
+    assert.deepEqual(parseJsonOutput('Here you go: {"a": {"b": true}} — done.'), { a: { b: true } });
+  });
+
+  it('should throw when the reply holds no JSON', () => {
+    assert.throws(() => parseJsonOutput('All done!'), /not valid JSON/);
+  });
+});
+
+describe('applyOutputSchema', () => {
+  it('should prefer natively returned data over the final message', () => {
+    const result = applyOutputSchema({ status: 'complete', finalMessage: 'prose', data: { findings: [] } }, findingsSchema);
+    assert.deepEqual(result.data, { findings: [] });
+  });
+
+  it('should fail a completed result whose output does not validate', () => {
+    const result = applyOutputSchema({ status: 'complete', stopReason: 'end_turn', finalMessage: '{}' }, findingsSchema);
+    assert.equal(result.status, 'failed');
+    assert.equal(result.stopReason, 'error');
+    assert.match(result.error ?? '', /\$\.findings: is required/);
+  });
+
+  it('should pass through results without a schema or that did not complete', () => {
+    const cancelled: AgentResult = { status: 'cancelled', stopReason: 'cancelled' };
+    assert.equal(applyOutputSchema(cancelled, findingsSchema), cancelled);
+    const complete: AgentResult = { status: 'complete', finalMessage: 'prose' };
+    assert.equal(applyOutputSchema(complete, undefined), complete);
+  });
+});
+
+describe('runWithOutputSchema', () => {
+  it('should inject the schema and retry with the validation errors', async () => {
+    const prompts: Array<{ prompt: string; isRetry: boolean }> = [];
+    const replies = ['{"findings": "none"}', '{"findings": []}'];
+
+    const result = await runWithOutputSchema(findingsSchema, 'Review the diff', async (prompt, isRetry) => {
+      prompts.push({ prompt, isRetry });
+      return { status: 'complete', finalMessage: replies.shift() };
+    });
+
+    assert.equal(result.status, 'complete');
+    assert.deepEqual(result.data, { findings: [] });
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[0].prompt, /^Review the diff\n\n.*JSON Schema/s);
+    assert.ok(prompts[0].prompt.includes(JSON.stringify(findingsSchema)));
+    assert.equal(prompts[1].isRetry, true);
+    assert.match(prompts[1].prompt, /\$\.findings: expected array, got string/);
+  });
+
+  it('should fail after the last attempt is still invalid', async () => {
+    let calls = 0;
+    const result = await runWithOutputSchema(findingsSchema, 'Review', async () => {
+      calls++;
+      return { status: 'complete', finalMessage: 'no json here' };
+    });
+
+    assert.equal(calls, 3);
+    assert.equal(result.status, 'failed');
+    assert.match(result.error ?? '', /Structured output invalid: reply is not valid JSON/);
+  });
+
+  it('should run the prompt unchanged without a schema', async () => {
+    const result = await runWithOutputSchema(undefined, 'Hello', async prompt => ({ status: 'complete', finalMessage: prompt }));
+    assert.equal(result.finalMessage, 'Hello');
+    assert.equal(result.data, undefined);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SubagentTracker } from '../src/providers/subagents.ts';
+
+describe('SubagentTracker', () => {
+  it('should leave main-agent events un-nested', () => {
+    const subagents = new SubagentTracker();
+    assert.deepEqual(subagents.nest(null, 'tool-1'), {});
+    assert.deepEqual(subagents.start('task-1'), { depth: 0 });
+  });
+
+  it('should nest a sub-agent\'s events one level below it', () => {
+    const subagents = new SubagentTracker();
+    subagents.start('task-1');
+
+    assert.deepEqual(subagents.nest('task-1', 'read-1'), { parentId: 'task-1', depth: 1 });
+    assert.equal(subagents.has('task-1'), true);
+    assert.equal(subagents.has('read-1'), false);
+    assert.deepEqual(subagents.end('task-1'), { depth: 0 });
+  });
+
+  it('should place a nested sub-agent under the sub-agent that delegated to it', () => {
+    const subagents = new SubagentTracker();
+    subagents.start('task-1');
+    // Copilot reports the parent on the delegating tool call, not on subagent.started
+    subagents.nest('task-1', 'task-2');
+
+    assert.deepEqual(subagents.start('task-2'), { parentId: 'task-1', depth: 1 });
+    assert.deepEqual(subagents.nest('task-2', 'bash-1'), { parentId: 'task-2', depth: 2 });
+    assert.deepEqual(subagents.end('task-2'), { parentId: 'task-1', depth: 1 });
+  });
+
+  it('should forget a sub-agent and the tool calls made inside it when it ends', () => {
+    const subagents = new SubagentTracker();
+    subagents.start('task-1');
+    subagents.nest('task-1', 'read-1');
+    subagents.nest('task-1', 'task-2');
+    subagents.start('task-2');
+
+    subagents.end('task-1');
+    assert.equal(subagents.has('task-1'), false);
+    assert.deepEqual(subagents.start('read-1'), { depth: 0 });
+    // A nested sub-agent still running keeps its place
+    assert.deepEqual(subagents.end('task-2'), { parentId: 'task-1', depth: 1 });
+    assert.deepEqual(subagents.end('task-2'), { depth: 0 });
+  });
+});
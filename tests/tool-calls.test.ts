@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ToolCallTracker } from '../src/providers/tool-calls.ts';
+
+describe('ToolCallTracker', () => {
+  it('should keep the first start time and tool name across updates', () => {
+    const tracker = new ToolCallTracker();
+    tracker.track('call-1', 'started', 'bash', 1000);
+    const running = tracker.track('call-1', 'running', undefined, 1500);
+
+    assert.deepEqual(running, {
+      toolCallId: 'call-1',
+      toolName: 'bash',
+      toolStatus: 'running',
+      startedAt: 1000,
+    });
+  });
+
+  it('should report end time and duration when a call finishes', () => {
+    const tracker = new ToolCallTracker();
+    tracker.track('call-1', 'started', 'bash', 1000);
+    const completed = tracker.track('call-1', 'failed', undefined, 1750);
+
+    assert.equal(completed.toolStatus, 'failed');
+    assert.equal(completed.endedAt, 1750);
+    assert.equal(completed.duration, 750);
+    assert.equal(tracker.has('call-1'), false);
+  });
+
+  it('should treat the first sighting as the start when no start was reported', () => {
+    const tracker = new ToolCallTracker();
+    const completed = tracker.track('call-2', 'completed', 'read', 2000);
+
+    assert.equal(completed.startedAt, 2000);
+    assert.equal(completed.duration, 0);
+  });
+
+  it('should track calls independently', () => {
+    const tracker = new ToolCallTracker();
+    tracker.track('a', 'started', 'read', 1);
+    tracker.track('b', 'started', 'write', 2);
+
+    assert.equal(tracker.track('a', 'running').toolName, 'read');
+    assert.equal(tracker.track('b', 'running').startedAt, 2);
+    tracker.clear();
+    assert.equal(tracker.has('a'), false);
+  });
+});
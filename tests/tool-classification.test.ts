@@ -14,6 +14,7 @@ describe('classifyToolKind', () => {
     assert.equal(classifyToolKind('Write'), 'file_write');
     assert.equal(classifyToolKind('Edit'), 'file_write');
     assert.equal(classifyToolKind('MultiEdit'), 'file_write');
+    assert.equal(classifyToolKind('NotebookEdit'), 'file_write');
     assert.equal(classifyToolKind('patch'), 'file_write');
     assert.equal(classifyToolKind('insert'), 'file_write');
   });
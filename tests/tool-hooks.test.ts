@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runPostToolUse, toolOutputText } from '../src/providers/tool-hooks.ts';
+import type { AgentEvent } from '../src/types/events.ts';
+import type { AgentToolCall, AgentToolResult } from '../src/types/providers.ts';
+
+const toolCall: AgentToolCall = {
+  toolName: 'Bash',
+  toolCallId: 'tc-1',
+  input: { command: 'cat .env' },
+  agentType: 'claude',
+  sessionId: 's-1',
+  contextId: 'ctx-1',
+};
+const result: AgentToolResult = { output: 'API_KEY=sk-123', isError: false };
+
+describe('runPostToolUse', () => {
+  it('should return the override from the hook', async () => {
+    const events: AgentEvent[] = [];
+    const override = await runPostToolUse({
+      contextId: 'ctx-1',
+      onEvent: event => events.push(event),
+      hooks: {
+        onPostToolUse: async (_call, { output }) => ({ output: output.replace(/sk-\w+/g, '[redacted]') }),
+      },
+    }, toolCall, result);
+
+    assert.deepEqual(override, { output: 'API_KEY=[redacted]' });
+    assert.equal(events.length, 0);
+  });
+
+  it('should leave the result unchanged without a hook or when the hook returns nothing', async () => {
+    const config = { contextId: 'ctx-1', onEvent: () => {} };
+    assert.equal(await runPostToolUse(config, toolCall, result), undefined);
+    assert.equal(await runPostToolUse({ ...config, hooks: { onPostToolUse: () => {} } }, toolCall, result), undefined);
+  });
+
+  it('should report a throwing hook as an error event', async () => {
+    const events: AgentEvent[] = [];
+    const override = await runPostToolUse({
+      contextId: 'ctx-1',
+      onEvent: event => events.push(event),
+      hooks: { onPostToolUse: () => { throw new Error('scanner offline'); } },
+    }, toolCall, result);
+
+    assert.equal(override, undefined);
+    assert.equal(events[0].type, 'error');
+    assert.equal(events[0].content, 'onPostToolUse hook failed for Bash: scanner offline');
+  });
+});
+
+describe('toolOutputText', () => {
+  it('should flatten native tool results into text', () => {
+    assert.equal(toolOutputText('plain'), 'plain');
+    assert.equal(toolOutputText(undefined), '');
+    assert.equal(toolOutputText({ stdout: 'ok', stderr: 'warn', interrupted: false }), 'ok\nwarn');
+    assert.equal(toolOutputText([{ type: 'text', text: 'a' }, { type: 'image' }, { type: 'text', text: 'b' }]), 'a\nb');
+    assert.equal(toolOutputText({ content: [{ type: 'text', text: 'mcp' }] }), 'mcp');
+    assert.equal(toolOutputText({ filePath: '/a.ts', success: true }), '{"filePath":"/a.ts","success":true}');
+  });
+});
@@ -0,0 +1,229 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TurnRecorder, addUsage, describeUsage } from '../src/providers/turn.ts';
+import type { AgentEvent, AgentUsage } from '../src/types/events.ts';
+import type { AgentResult } from '../src/types/providers.ts';
+
+function usageEvent(usage: AgentUsage): AgentEvent {
+  return { id: 'e', contextId: 'ctx-1', type: 'usage', content: describeUsage(usage), timestamp: 0, metadata: { usage } };
+}
+
+describe('TurnRecorder', () => {
+  it('should forward every event to the consumer callback', async () => {
+    const forwarded: AgentEvent[] = [];
+    const turn = new TurnRecorder(event => forwarded.push(event));
+
+    await turn.run(async () => {
+      turn.onEvent({ id: 'e1', contextId: 'ctx-1', type: 'output', content: 'hi', timestamp: 0 });
+      return { status: 'complete' };
+    });
+
+    assert.equal(forwarded.length, 1);
+    assert.equal(forwarded[0].content, 'hi');
+  });
+
+  it('should sum usage events into the result', async () => {
+    const turn = new TurnRecorder(() => {});
+
+    const result = await turn.run(async () => {
+      turn.onEvent(usageEvent({ inputTokens: 10, outputTokens: 5, costUsd: 0.01 }));
+      turn.onEvent(usageEvent({ inputTokens: 20, outputTokens: 7, reasoningTokens: 3, costUsd: 0.02 }));
+      return { status: 'complete' };
+    });
+
+    assert.deepEqual(result.usage, { inputTokens: 30, outputTokens: 12, reasoningTokens: 3, costUsd: 0.03 });
+  });
+
+  it('should reset usage between calls and omit it when none was reported', async () => {
+    const turn = new TurnRecorder(() => {});
+    await turn.run(async () => {
+      turn.onEvent(usageEvent({ inputTokens: 1, outputTokens: 1 }));
+      return { status: 'complete' };
+    });
+
+    const result = await turn.run(async () => ({ status: 'complete' }));
+
+    assert.equal(result.usage, undefined);
+  });
+});
+
+describe('TurnRecorder correlation', () => {
+  function outputEvent(content: string): AgentEvent {
+    return { id: content, contextId: 'ctx-1', type: 'output', content, timestamp: 0 };
+  }
+
+  it('should stamp events with the call\'s turnId and return it on the result', async () => {
+    const forwarded: AgentEvent[] = [];
+    const turn = new TurnRecorder(event => forwarded.push(event));
+
+    const first = await turn.run(async () => {
+      turn.onEvent(outputEvent('a'));
+      return { status: 'complete' };
+    });
+    const second = await turn.run(async () => {
+      turn.onEvent(outputEvent('b'));
+      return { status: 'complete' };
+    });
+
+    assert.ok(first.turnId && second.turnId);
+    assert.notEqual(first.turnId, second.turnId);
+    assert.deepEqual(forwarded.map(event => event.turnId), [first.turnId, second.turnId]);
+  });
+
+  it('should number events across calls and leave events between calls without a turnId', async () => {
+    const forwarded: AgentEvent[] = [];
+    const turn = new TurnRecorder(event => forwarded.push(event));
+
+    await turn.run(async () => {
+      turn.onEvent(outputEvent('a'));
+      turn.onEvent(outputEvent('b'));
+      return { status: 'complete' };
+    });
+    turn.onEvent(outputEvent('late'));
+    await turn.send(async () => {
+      turn.onEvent(outputEvent('sent'));
+    });
+
+    assert.deepEqual(forwarded.map(event => event.seq), [1, 2, 3, 4]);
+    assert.equal(forwarded[2].turnId, undefined);
+    assert.ok(forwarded[3].turnId);
+    assert.notEqual(forwarded[3].turnId, forwarded[0].turnId);
+  });
+});
+
+describe('TurnRecorder changed files', () => {
+  function fileEvent(file: string, metadata: AgentEvent['metadata'] = {}): AgentEvent {
+    return { id: 'e', contextId: 'ctx-1', type: 'file_write', content: file, timestamp: 0, metadata: { file, ...metadata } };
+  }
+
+  it('should report duration and one entry per changed path', async () => {
+    const turn = new TurnRecorder(() => {});
+
+    const result = await turn.run(async () => {
+      turn.onEvent(fileEvent('src/a.ts', { changeKind: 'created' }));
+      turn.onEvent(fileEvent('src/a.ts'));
+      turn.onEvent(fileEvent('src/b.ts'));
+      turn.onEvent(fileEvent('src/b.ts', { changeKind: 'deleted' }));
+      turn.onEvent({ id: 'e', contextId: 'ctx-1', type: 'file_write', content: 'write', timestamp: 0 });
+      return { status: 'complete' };
+    });
+
+    assert.deepEqual(result.changedFiles, [
+      { path: 'src/a.ts', kind: 'created' },
+      { path: 'src/b.ts', kind: 'deleted' },
+    ]);
+    assert.equal(typeof result.durationMs, 'number');
+  });
+
+  it('should drop files created and deleted within the same call', async () => {
+    const turn = new TurnRecorder(() => {});
+
+    const result = await turn.run(async () => {
+      turn.onEvent(fileEvent('tmp.txt', { changeKind: 'created' }));
+      turn.onEvent(fileEvent('tmp.txt', { changeKind: 'deleted' }));
+      return { status: 'complete' };
+    });
+
+    assert.deepEqual(result.changedFiles, []);
+  });
+
+  it('should retract files written by a tool call that failed', async () => {
+    const turn = new TurnRecorder(() => {});
+
+    const result = await turn.run(async () => {
+      turn.onEvent(fileEvent('src/a.ts', { toolCallId: 'call-1', toolStatus: 'started' }));
+      turn.onEvent(fileEvent('src/b.ts', { toolCallId: 'call-2', toolStatus: 'started' }));
+      turn.onEvent({
+        id: 'e', contextId: 'ctx-1', type: 'error', content: 'denied', timestamp: 0,
+        metadata: { toolCallId: 'call-1', toolStatus: 'failed' },
+      });
+      return { status: 'complete' };
+    });
+
+    assert.deepEqual(result.changedFiles, [{ path: 'src/b.ts', kind: 'modified' }]);
+  });
+
+  it('should keep provider-supplied result fields', async () => {
+    const turn = new TurnRecorder(() => {});
+
+    const result = await turn.run(async () => ({ status: 'complete', stopReason: 'end_turn', finalMessage: 'done' }));
+
+    assert.equal(result.stopReason, 'end_turn');
+    assert.equal(result.finalMessage, 'done');
+  });
+});
+
+describe('TurnRecorder stream', () => {
+  function outputEvent(content: string): AgentEvent {
+    return { id: content, contextId: 'ctx-1', type: 'output', content, timestamp: 0 };
+  }
+
+  it('should yield events as they arrive and end with the result', async () => {
+    const forwarded: AgentEvent[] = [];
+    const turn = new TurnRecorder(event => forwarded.push(event));
+
+    const items = [];
+    for await (const item of turn.stream(() => turn.run(async () => {
+      turn.onEvent(outputEvent('one'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      turn.onEvent(outputEvent('two'));
+      return { status: 'complete', finalMessage: 'two' };
+    }))) {
+      items.push(item);
+    }
+
+    assert.deepEqual(items.map(item => item.type), ['output', 'output', 'result']);
+    const last = items[2];
+    assert.ok(last.type === 'result');
+    assert.equal(last.result.finalMessage, 'two');
+    assert.equal(typeof last.result.durationMs, 'number');
+    assert.equal(forwarded.length, 2, 'onEvent still receives streamed events');
+  });
+
+  it('should rethrow when the call rejects', async () => {
+    const turn = new TurnRecorder(() => {});
+    const seen: string[] = [];
+
+    await assert.rejects(async () => {
+      for await (const item of turn.stream(async () => {
+        turn.onEvent(outputEvent('partial'));
+        throw new Error('boom');
+      })) {
+        seen.push(item.type);
+      }
+    }, /boom/);
+    assert.deepEqual(seen, ['output']);
+  });
+
+  it('should not abort the call when the consumer breaks out early', async () => {
+    const forwarded: AgentEvent[] = [];
+    const turn = new TurnRecorder(event => forwarded.push(event));
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    let finished!: Promise<AgentResult>;
+
+    for await (const item of turn.stream(() => {
+      finished = turn.run(async () => {
+        turn.onEvent(outputEvent('first'));
+        await gate;
+        turn.onEvent(outputEvent('after break'));
+        return { status: 'complete' };
+      });
+      return finished;
+    })) {
+      assert.equal(item.type, 'output');
+      break;
+    }
+
+    release();
+    await finished;
+    assert.deepEqual(forwarded.map(event => event.content), ['first', 'after break']);
+  });
+});
+
+describe('addUsage', () => {
+  it('should only include optional counters reported by either side', () => {
+    const sum = addUsage({ inputTokens: 1, outputTokens: 2 }, { inputTokens: 3, outputTokens: 4, cachedInputTokens: 5 });
+    assert.deepEqual(sum, { inputTokens: 4, outputTokens: 6, cachedInputTokens: 5 });
+  });
+});
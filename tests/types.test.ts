@@ -108,6 +108,9 @@ describe('AgentSessionConfig', () => {
         return { status: 'complete' };
       },
       async send(_message: string, _attachments?: import('../src/types/providers.js').AgentAttachment[]) {},
+      async *stream(_prompt: string, _attachments?: import('../src/types/providers.js').AgentAttachment[]) {
+        yield { type: 'result' as const, result: { status: 'complete' as const } };
+      },
       async abort() {},
       async destroy() {},
     };
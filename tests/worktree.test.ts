@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createWorktreeRewriter, isWorktreeSession } from '../src/providers/worktree.ts';
+import type { AgentPermissionRequest } from '../src/types/providers.ts';
+
+const config = { repoPath: '/src/app', workingDirectory: '/worktrees/app-feature' };
+
+function request(fields: Partial<AgentPermissionRequest>): AgentPermissionRequest {
+  return { kind: 'write', agentType: 'claude', sessionId: null, contextId: 'ctx-1', ...fields };
+}
+
+describe('createWorktreeRewriter', () => {
+  it('should only apply when the session runs outside repoPath', () => {
+    assert.equal(createWorktreeRewriter({ workingDirectory: '/src/app' }, 'test'), undefined);
+    assert.equal(createWorktreeRewriter({ repoPath: '/src/app/', workingDirectory: '/src/app' }, 'test'), undefined);
+    assert.equal(isWorktreeSession(config), true);
+  });
+
+  it('should rewrite checkout paths anywhere in a tool input', () => {
+    const rewriter = createWorktreeRewriter(config, 'test')!;
+    const input = {
+      file_path: '/src/app/src/index.ts',
+      command: 'cd /src/app && npm test',
+      edits: [{ path: '/src/app/README.md' }],
+      limit: 10,
+    };
+
+    const { value, changed } = rewriter.rewrite(input);
+    assert.equal(changed, true);
+    assert.deepEqual(value, {
+      file_path: '/worktrees/app-feature/src/index.ts',
+      command: 'cd /worktrees/app-feature && npm test',
+      edits: [{ path: '/worktrees/app-feature/README.md' }],
+      limit: 10,
+    });
+    assert.equal(input.file_path, '/src/app/src/index.ts');
+  });
+
+  it('should leave look-alike and nested paths alone', () => {
+    const rewriter = createWorktreeRewriter(config, 'test')!;
+    const input = { a: '/src/app-old/x.ts', b: '/vendor/src/app/x.ts', c: 'relative/path' };
+    assert.deepEqual(rewriter.rewrite(input), { value: input, changed: false });
+
+    const nested = createWorktreeRewriter({ repoPath: '/src/app', workingDirectory: '/src/app/.worktrees/fix' }, 'test')!;
+    assert.deepEqual(nested.rewrite({ path: '/src/app/.worktrees/fix/a.ts' }).changed, false);
+    assert.deepEqual(nested.rewrite({ path: '/src/app/a.ts' }).value, { path: '/src/app/.worktrees/fix/a.ts' });
+  });
+
+  it('should not rewrite a path that traverses out of the worktree', () => {
+    const rewriter = createWorktreeRewriter(config, 'test')!;
+    const input = { path: '/src/app/../../etc/passwd' };
+    assert.deepEqual(rewriter.rewrite(input), { value: input, changed: false });
+  });
+
+  it('should flag permission requests that still target the checkout', () => {
+    const rewriter = createWorktreeRewriter(config, 'test')!;
+    assert.equal(rewriter.checkoutViolation(request({ paths: ['src/a.ts', '/worktrees/app-feature/b.ts'] })), undefined);
+    assert.equal(
+      rewriter.checkoutViolation(request({ paths: ['/src/app/src/a.ts'] })),
+      '/src/app/src/a.ts is in the main checkout; this session works in /worktrees/app-feature',
+    );
+    assert.equal(rewriter.checkoutViolation(request({ paths: ['../../src/app/a.ts'] }))?.startsWith('/src/app/a.ts'), true);
+    assert.match(rewriter.checkoutViolation(request({ kind: 'shell', command: 'rm -rf /src/app/dist' })) ?? '', /main checkout/);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import WebSocket from 'ws';
+import { createWSServer } from '../src/ws/server.ts';
+import { createApprovalQueue } from '../src/ws/approvals.ts';
+import type { ApprovalQueueOptions } from '../src/ws/approvals.ts';
+import type { AgentPermissionRequest } from '../src/types/providers.ts';
+
+const request: AgentPermissionRequest = {
+  kind: 'shell',
+  command: 'git push',
+  agentType: 'claude',
+  sessionId: 's-1',
+  contextId: 'ctx-1',
+};
+
+async function setup(options: Omit<ApprovalQueueOptions, 'wss'> = {}) {
+  const httpServer = createServer();
+  await new Promise<void>(r => httpServer.listen(0, r));
+  const port = (httpServer.address() as any).port;
+  const { wss, cleanup } = createWSServer({ server: httpServer, path: '/ws' });
+  const queue = createApprovalQueue({ wss, ...options });
+
+  const connect = async () => {
+    const ws = new WebSocket(`ws://localhost:${port}/ws`);
+    const messages: any[] = [];
+    ws.on('message', (d) => messages.push(JSON.parse(d.toString())));
+    await new Promise<void>(r => ws.on('open', r));
+    return { ws, messages };
+  };
+  const close = () => {
+    queue.dispose();
+    cleanup();
+    httpServer.close();
+  };
+  return { queue, wss, connect, close };
+}
+
+const tick = (ms = 50) => new Promise(r => setTimeout(r, ms));
+
+describe('createApprovalQueue', () => {
+  it('should broadcast a request and resume with the client decision', async () => {
+    const { queue, connect, close } = await setup();
+    const reviewer = await connect();
+    const viewer = await connect();
+    await tick();
+
+    const decision = queue.onPermissionRequest(request);
+    await tick();
+    assert.equal(reviewer.messages[0].type, 'approval_required');
+    assert.deepEqual(reviewer.messages[0].payload.request, request);
+    const { approvalId } = reviewer.messages[0].payload;
+    assert.equal(queue.pending().length, 1);
+
+    reviewer.ws.send(JSON.stringify({ type: 'approval_response', payload: { approvalId, decision: 'approve' } }));
+    assert.deepEqual(await decision, { kind: 'approved' });
+    await tick();
+
+    assert.equal(queue.pending().length, 0);
+    assert.deepEqual(viewer.messages.map(m => m.type), ['approval_required', 'approval_resolved']);
+    assert.deepEqual(viewer.messages[1].payload, { approvalId, decision: { kind: 'approved' }, resolvedBy: 'client' });
+
+    reviewer.ws.close();
+    viewer.ws.close();
+    close();
+  });
+
+  it('should pass a denial message back and ignore unknown or unauthorized replies', async () => {
+    const { queue, connect, close } = await setup({ authorize: (_ws, response) => response.message !== 'spoofed' });
+    const client = await connect();
+    await tick();
+
+    const decision = queue.onPermissionRequest(request);
+    await tick();
+    const { approvalId } = client.messages[0].payload;
+    client.ws.send(JSON.stringify({ type: 'approval_response', payload: { approvalId: 'nope', decision: 'approve' } }));
+    client.ws.send(JSON.stringify({ type: 'approval_response', payload: { approvalId, decision: 'approve', message: 'spoofed' } }));
+    client.ws.send('not json');
+    await tick();
+    assert.equal(queue.pending().length, 1);
+
+    client.ws.send(JSON.stringify({ type: 'approval_response', payload: { approvalId, decision: 'deny', message: 'Not on Fridays' } }));
+    assert.deepEqual(await decision, { kind: 'denied-by-rules', message: 'Not on Fridays' });
+
+    client.ws.close();
+    close();
+  });
+
+  it('should use the default decision after the timeout', async () => {
+    const { queue, connect, close } = await setup({ timeoutMs: 50, defaultDecision: { kind: 'approved' } });
+    const client = await connect();
+    await tick();
+
+    assert.deepEqual(await queue.onPermissionRequest(request), { kind: 'approved' });
+    await tick();
+    assert.equal(client.messages.at(-1).type, 'approval_resolved');
+    assert.equal(client.messages.at(-1).payload.resolvedBy, 'timeout');
+
+    client.ws.close();
+    close();
+  });
+
+  it('should replay pending requests to late clients and settle them on dispose', async () => {
+    const { queue, connect, close } = await setup({ timeoutMs: 0 });
+    const decision = queue.onPermissionRequest(request);
+    assert.equal(queue.pending()[0].expiresAt, undefined);
+
+    const late = await connect();
+    await tick();
+    assert.equal(late.messages[0].type, 'approval_required');
+
+    queue.dispose();
+    assert.deepEqual(await decision, { kind: 'denied-by-rules', message: 'Approval request timed out' });
+    assert.deepEqual(await queue.onPermissionRequest(request), { kind: 'denied-by-rules', message: 'Approval request timed out' });
+
+    late.ws.close();
+    close();
+  });
+
+  it('should leave a large rawInput out of the broadcast and stop listening on dispose', async () => {
+    const { queue, wss, connect, close } = await setup();
+    const client = await connect();
+    await tick();
+    const [socket] = wss.clients;
+    const listeners = socket.listenerCount('message');
+
+    const write: AgentPermissionRequest = { ...request, kind: 'write', rawInput: { content: 'x'.repeat(2 * 1024 * 1024) } };
+    const decision = queue.onPermissionRequest(write);
+    await tick();
+    assert.equal(client.messages[0].payload.rawInputOmitted, true);
+    assert.equal(client.messages[0].payload.request.rawInput, undefined);
+    client.ws.send(JSON.stringify({ type: 'approval_response', payload: { approvalId: client.messages[0].payload.approvalId, decision: 'approve' } }));
+    assert.deepEqual(await decision, { kind: 'approved' });
+
+    queue.dispose();
+    assert.equal(socket.listenerCount('message'), listeners - 1);
+
+    client.ws.close();
+    close();
+  });
+
+  it('should settle a request too large to broadcast with the default decision', async () => {
+    const { queue, connect, close } = await setup({ defaultDecision: { kind: 'denied-by-rules', message: 'Too large' } });
+    const client = await connect();
+    await tick();
+
+    const huge: AgentPermissionRequest = { ...request, command: 'x'.repeat(2 * 1024 * 1024) };
+    assert.deepEqual(await queue.onPermissionRequest(huge), { kind: 'denied-by-rules', message: 'Too large' });
+    await tick();
+    assert.deepEqual(client.messages.map(m => m.type), ['approval_resolved']);
+    assert.equal(client.messages[0].payload.resolvedBy, 'undeliverable');
+    assert.equal(queue.pending().length, 0);
+
+    client.ws.close();
+    close();
+  });
+});